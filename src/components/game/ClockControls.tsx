@@ -0,0 +1,42 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { GAME_SPEEDS } from '@/hooks/use-game-clock';
+
+interface ClockControlsProps {
+  calendar: { day: number; hour: number; minute: number };
+  speed: number;
+  paused: boolean;
+  onSpeedChange: (speed: number) => void;
+  onTogglePause: () => void;
+  onStep: () => void;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Calendar plus pause, speed and single-step buttons for the simulation clock
+const ClockControls = ({ calendar, speed, paused, onSpeedChange, onTogglePause, onStep }: ClockControlsProps) => (
+  <div className="mt-3 flex justify-center items-center gap-2 flex-wrap">
+    <Badge variant="secondary" className="bg-plant-100 text-plant-800 font-mono">
+      📅 День {calendar.day}, {pad(calendar.hour)}:{pad(calendar.minute)}
+    </Badge>
+    <Button size="sm" variant="outline" className="h-7" onClick={onTogglePause}>
+      {paused ? '▶️ Пуск' : '⏸️ Пауза'}
+    </Button>
+    {GAME_SPEEDS.map(option => (
+      <Button
+        key={option}
+        size="sm"
+        variant={option === speed ? 'default' : 'outline'}
+        className={`h-7 ${option === speed ? 'bg-plant-600 hover:bg-plant-700' : ''}`}
+        onClick={() => onSpeedChange(option)}
+      >
+        {option}×
+      </Button>
+    ))}
+    <Button size="sm" variant="outline" className="h-7" onClick={onStep} disabled={!paused} title="Одна игровая минута">
+      ⏭️ Шаг
+    </Button>
+  </div>
+);
+
+export default ClockControls;
@@ -0,0 +1,102 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import {
+  CURE_GRACE, CURE_PEAK, CURING_JARS, DRYING_RACKS, DRYING_TIME, getBatchQuality, getDryingProgress, getFreeJars, getQualityGrade,
+  isDry, QUALITY_GRADES
+} from '@/game/curing';
+import type { GameState, HarvestBatch } from '@/game/types';
+
+interface CuringViewProps {
+  state: GameState;
+  highlightId: string | null;
+  onJar: (batchId: string) => void;
+  onPack: (batchId: string) => void;
+}
+
+const hoursLeft = (ms: number) => `${Math.max(0, Math.ceil(ms / 3600000))}ч`;
+
+// Where a jar is on its curve, for the player deciding when to pack
+const getCuringStatus = (batch: HarvestBatch, gameTime: number): { text: string; className: string } => {
+  const cured = gameTime - batch.stageStartedAt;
+  if (cured < CURE_PEAK) return { text: `📈 Качество растёт, пик через ${hoursLeft(CURE_PEAK - cured)}`, className: 'text-plant-700' };
+  if (cured < CURE_PEAK + CURE_GRACE) {
+    return { text: `⭐ На пике, портится через ${hoursLeft(CURE_PEAK + CURE_GRACE - cured)}`, className: 'text-yellow-700' };
+  }
+  return { text: '📉 Передержано, качество падает', className: 'text-red-600' };
+};
+
+// Drying racks and curing jars between the harvest and the inventory
+const CuringView = ({ state, highlightId, onJar, onPack }: CuringViewProps) => {
+  const racks = state.batches.filter(batch => batch.stage === 'drying');
+  const jars = state.batches.filter(batch => batch.stage === 'curing');
+  const freeJars = getFreeJars(state);
+
+  const renderBatch = (batch: HarvestBatch) => {
+    const quality = getBatchQuality(batch, state.gameTime);
+    const grade = getQualityGrade(quality);
+    const dry = isDry(batch, state.gameTime);
+    const status = batch.stage === 'curing' ? getCuringStatus(batch, state.gameTime) : null;
+    return (
+      <Card key={batch.id} id={`item-${batch.id}`} className={batch.id === highlightId ? 'ring-4 ring-yellow-400' : ''}>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center justify-between text-base">
+            <span>{batch.name}</span>
+            <Badge variant="secondary" title={QUALITY_GRADES[grade].label}>{batch.quantity}г · {grade}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span>Качество</span>
+            <span className="font-mono font-semibold">{quality}/100 ({QUALITY_GRADES[grade].label})</span>
+          </div>
+          {batch.stage === 'drying' && (
+            <>
+              <Progress value={getDryingProgress(batch, state.gameTime) * 100} />
+              <div className="text-xs text-gray-500">
+                {dry ? '✅ Высохло' : `💨 Сохнет, осталось ${hoursLeft(batch.stageStartedAt + DRYING_TIME - state.gameTime)}`}
+              </div>
+            </>
+          )}
+          {status && <div className={`text-xs ${status.className}`}>{status.text}</div>}
+          <div className="flex gap-2">
+            {batch.stage === 'drying' && (
+              <Button size="sm" variant="outline" className="flex-1" onClick={() => onJar(batch.id)} disabled={!dry || freeJars < 1}>
+                🫙 В банку
+              </Button>
+            )}
+            <Button size="sm" className="flex-1 bg-plant-600 hover:bg-plant-700" onClick={() => onPack(batch.id)} disabled={!dry}>
+              📦 Упаковать
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-plant-700 mb-3">💨 Сушильные сетки ({racks.length}/{DRYING_RACKS})</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {racks.map(renderBatch)}
+          {racks.length === 0 && <div className="col-span-full text-gray-500">Сетки пусты. Собери урожай на ферме.</div>}
+        </div>
+      </div>
+      <div>
+        <h3 className="text-lg font-semibold text-plant-700 mb-3">🫙 Банки для ферментации ({jars.length}/{CURING_JARS})</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {jars.map(renderBatch)}
+          {jars.length === 0 && (
+            <div className="col-span-full text-gray-500">
+              Банки пусты. Высохший урожай в банке набирает качество, но передержанный портится.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CuringView;
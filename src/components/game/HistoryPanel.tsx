@@ -0,0 +1,52 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { GameHistory } from '@/game/history';
+
+interface HistoryPanelProps {
+  history: GameHistory;
+  onUndo: (steps: number) => void;
+  onRedo: () => void;
+}
+
+// Undo/redo buttons and the list of recent actions; rolling back to an entry undoes it and everything after it
+const HistoryPanel = ({ history, onUndo, onRedo }: HistoryPanelProps) => {
+  const { past, future } = history;
+
+  return (
+    <div className="flex gap-1">
+      <Button size="sm" variant="outline" className="h-6" disabled={past.length === 0} onClick={() => onUndo(1)} title="Отменить (Ctrl+Z)">
+        ↩️
+      </Button>
+      <Button size="sm" variant="outline" className="h-6" disabled={future.length === 0} onClick={onRedo} title="Повторить (Ctrl+Y)">
+        ↪️
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="outline" className="h-6">🕘 История</Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 max-h-96 overflow-auto">
+          {past.length === 0 && future.length === 0 && (
+            <div className="text-sm text-gray-500">Действий пока не было</div>
+          )}
+          <div className="space-y-1">
+            {future.map((entry, index) => (
+              <div key={`future-${index}`} className="flex justify-between items-center text-sm text-gray-400 line-through">
+                {entry.label}
+              </div>
+            ))}
+            {[...past].reverse().map((entry, index) => (
+              <div key={`past-${index}`} className="flex justify-between items-center gap-2 text-sm">
+                <span>{entry.label}</span>
+                <Button size="sm" variant="ghost" className="h-6 shrink-0" onClick={() => onUndo(index + 1)}>
+                  Откатить
+                </Button>
+              </div>
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+
+interface ImportCodeDialogProps {
+  onImport: (code: string) => Promise<string | null>; // Error message if the code is rejected
+}
+
+// Paste a share code; the dialog stays open with the code and the reason if it is rejected
+const ImportCodeDialog = ({ onImport }: ImportCodeDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    const rejection = await onImport(code);
+    setError(rejection);
+    if (rejection) return;
+    setCode('');
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">🔗 Вставить код</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>🔗 Импорт по коду</DialogTitle>
+          <DialogDescription>Ферма из кода появится в отдельном слоте</DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value);
+            setError(null);
+          }}
+          placeholder="WG1.…"
+          className="h-40 font-mono text-xs break-all"
+        />
+        {error && <p className="text-sm text-red-600">⚠️ {error}</p>}
+        <Button className="bg-plant-600 hover:bg-plant-700" disabled={!code.trim()} onClick={submit}>
+          📥 Импортировать
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportCodeDialog;
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getCalendar } from '@/game/engine';
+import { describeEvent, getEventTarget, JOURNAL_TYPES } from '@/game/journal';
+import type { GameState, JournalEvent, JournalEventType } from '@/game/types';
+
+interface JournalViewProps {
+  state: GameState;
+  onJump: (target: NonNullable<ReturnType<typeof getEventTarget>>) => void;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const exists = (state: GameState, event: JournalEvent) => {
+  const target = getEventTarget(event);
+  if (!target) return false;
+  const items = { plant: state.plants, batch: state.batches, bud: state.buds, seed: state.seeds }[target.kind];
+  return items.some(item => item.id === target.id);
+};
+
+// Farm timeline, newest first, filtered by event type and strain
+const JournalView = ({ state, onJump }: JournalViewProps) => {
+  const [type, setType] = useState<JournalEventType | 'all'>('all');
+  const [strainId, setStrainId] = useState('all');
+
+  const strains = [...new Map(state.journal.map(event => [event.strainId, event.name])).entries()];
+  // Rows keep their position in the journal as a key, which neither new entries nor filters change
+  const events = state.journal
+    .map((event, position) => ({ event, position }))
+    .filter(({ event }) => (type === 'all' || event.type === type) && (strainId === 'all' || event.strainId === strainId))
+    .reverse();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 flex-wrap">
+        <Select value={type} onValueChange={(value) => setType(value as JournalEventType | 'all')}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Все события</SelectItem>
+            {(Object.keys(JOURNAL_TYPES) as JournalEventType[]).map(key => (
+              <SelectItem key={key} value={key}>{JOURNAL_TYPES[key].icon} {JOURNAL_TYPES[key].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={strainId} onValueChange={setStrainId}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Все сорта</SelectItem>
+            {strains.map(([id, name]) => (
+              <SelectItem key={id} value={id}>{state.pedigree[id]?.name ?? name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {events.length === 0 && (
+        <Card className="p-6 text-center text-gray-500">
+          {state.journal.length === 0 ? 'В журнале пока пусто' : 'Нет событий под эти фильтры'}
+        </Card>
+      )}
+
+      <div className="space-y-2">
+        {events.map(({ event, position }) => {
+          const { day, hour, minute } = getCalendar(state, event.at);
+          const target = getEventTarget(event);
+          return (
+            <Card key={position} className={`p-3 flex items-center gap-3 ${event.type === 'mutation' ? 'border-purple-400' : ''}`}>
+              <span className="text-xl">{JOURNAL_TYPES[event.type].icon}</span>
+              <div className="flex-1">
+                <div className="text-sm">{describeEvent(event, state.pedigree)}</div>
+                <div className="text-xs text-gray-500 font-mono">День {day}, {pad(hour)}:{pad(minute)}</div>
+              </div>
+              {target && (
+                <Button size="sm" variant="ghost" disabled={!exists(state, event)} onClick={() => onJump(target)}>
+                  👁️ Показать
+                </Button>
+              )}
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default JournalView;
@@ -0,0 +1,56 @@
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { getCancelRefund, getJobProgress, LAB_NAMES, LAB_SLOTS } from '@/game/lab';
+import type { BudItem, LabJob } from '@/game/types';
+
+interface LabQueueProps {
+  jobs: LabJob[];
+  buds: BudItem[];
+  gameTime: number;
+  onCancel: (jobId: string) => void;
+}
+
+const formatHours = (ms: number) => {
+  const minutes = Math.max(0, Math.ceil(ms / 60000));
+  return `${Math.floor(minutes / 60)}ч ${minutes % 60}м`;
+};
+
+// Running and waiting lab jobs with progress and cancel buttons
+const LabQueue = ({ jobs, buds, gameTime, onCancel }: LabQueueProps) => {
+  const running = jobs.filter(job => job.startedAt !== null).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm text-gray-600">
+        Занято слотов: {running}/{LAB_SLOTS} · В очереди: {jobs.length - running}
+      </div>
+      {jobs.map(job => {
+        const bud = buds.find(b => b.id === job.budId);
+        const progress = getJobProgress(job, gameTime);
+        return (
+          <div key={job.id} className="bg-white rounded-lg p-3 space-y-2">
+            <div className="flex justify-between items-center text-sm">
+              <span className="font-medium">
+                {job.labType === 'premium' ? '⚗️' : '🔬'} {bud?.name ?? '?'} · {LAB_NAMES[job.labType]}
+              </span>
+              <span className="text-gray-600">
+                {job.startedAt === null
+                  ? '⏳ В очереди'
+                  : `Осталось ${formatHours(job.startedAt + job.duration - gameTime)}`}
+              </span>
+            </div>
+            <Progress value={progress * 100} />
+            <Button variant="outline" size="sm" className="w-full" onClick={() => onCancel(job.id)}>
+              ✖️ Отменить (+${getCancelRefund(job, gameTime)})
+            </Button>
+          </div>
+        );
+      })}
+      {jobs.length === 0 && (
+        <div className="text-center text-gray-500 py-4">Лаборатории свободны</div>
+      )}
+    </div>
+  );
+};
+
+export default LabQueue;
@@ -0,0 +1,20 @@
+import type { Lineage, StrainRecord } from '@/game/types';
+
+interface LineageInfoProps {
+  lineage: Lineage;
+  pedigree: Record<string, StrainRecord>;
+}
+
+// Generation and parent names, e.g. "F2 · Og Haze × Og Haze"
+const LineageInfo = ({ lineage, pedigree }: LineageInfoProps) => {
+  const parents = lineage.parentIds.map(id => pedigree[id]?.name ?? '?');
+  return (
+    <div className="text-xs text-gray-500 mb-3">
+      <span className="font-mono font-semibold text-plant-700">{lineage.generation}</span>
+      {lineage.origin === 'store' && ' · Магазинная линия'}
+      {parents.length > 0 && ` · ${parents.join(' × ')}`}
+    </div>
+  );
+};
+
+export default LineageInfo;
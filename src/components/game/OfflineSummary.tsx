@@ -0,0 +1,65 @@
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { OfflineReport } from '@/game/offline';
+
+interface OfflineSummaryProps {
+  report: OfflineReport | null;
+  capHours: number;
+  onClose: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor(ms / 60000) % 60;
+  return hours > 0 ? `${hours}ч ${minutes}м` : `${minutes}м`;
+};
+
+// "While you were away": what the farm did during the catch-up after loading
+const OfflineSummary = ({ report, capHours, onClose }: OfflineSummaryProps) => (
+  <Dialog open={report !== null} onOpenChange={(open) => !open && onClose()}>
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>🌙 Пока вас не было</DialogTitle>
+        <DialogDescription>
+          На ферме прошло {report && formatDuration(report.elapsed)} игрового времени
+          {report?.capped && ` (не больше ${capHours}ч — ограничение можно изменить в статистике)`}
+        </DialogDescription>
+      </DialogHeader>
+      {report && (
+        <div className="space-y-4 text-sm">
+          <div>
+            <div className="font-semibold mb-1">🌟 Готовы к сбору</div>
+            {report.readyPlants.length > 0 ? (
+              <ul className="list-disc pl-5">{report.readyPlants.map((name, index) => <li key={index}>{name}</li>)}</ul>
+            ) : (
+              <div className="text-gray-500">Ни одно растение не дозрело</div>
+            )}
+          </div>
+          {report.wiltingPlants.length > 0 && (
+            <div>
+              <div className="font-semibold mb-1 text-orange-600">💧 Вянут без воды — полейте их</div>
+              <ul className="list-disc pl-5">{report.wiltingPlants.map((name, index) => <li key={index}>{name}</li>)}</ul>
+            </div>
+          )}
+          {report.lostPlants.length > 0 && (
+            <div>
+              <div className="font-semibold mb-1 text-red-600">🥀 Погибли</div>
+              <ul className="list-disc pl-5">{report.lostPlants.map((message, index) => <li key={index}>{message}</li>)}</ul>
+            </div>
+          )}
+          <div>
+            <div className="font-semibold mb-1">🔬 Лаборатория</div>
+            {report.labMessages.length > 0 ? (
+              <ul className="list-disc pl-5">{report.labMessages.map((message, index) => <li key={index}>{message}</li>)}</ul>
+            ) : (
+              <div className="text-gray-500">Исследования не завершались</div>
+            )}
+          </div>
+        </div>
+      )}
+      <Button className="bg-plant-600 hover:bg-plant-700" onClick={onClose}>К ферме</Button>
+    </DialogContent>
+  </Dialog>
+);
+
+export default OfflineSummary;
@@ -0,0 +1,169 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { KNOWLEDGE_ICONS, KNOWLEDGE_LABELS } from '@/game/lab';
+import { buildPedigreeGraph } from '@/game/pedigree';
+import { formatGenome } from '@/game/punnett';
+import type { KnowledgeLevel, LineageOrigin, StrainRecord } from '@/game/types';
+
+interface PedigreeDialogProps {
+  strainId: string;
+  pedigree: Record<string, StrainRecord>;
+}
+
+const NODE_WIDTH = 128;
+const NODE_HEIGHT = 44;
+const GAP_X = 24;
+const GAP_Y = 56;
+
+const EDGE_STYLES: Record<LineageOrigin, { stroke: string; dash?: string; label: string }> = {
+  cross: { stroke: '#16a34a', label: 'Скрещивание' },
+  backcross: { stroke: '#ea580c', dash: '6 4', label: 'Бэккросс' },
+  selfing: { stroke: '#9333ea', dash: '2 4', label: 'Самоопыление' },
+  store: { stroke: '#9ca3af', label: 'Магазин' },
+  unknown: { stroke: '#9ca3af', label: 'Неизвестно' }
+};
+
+const KNOWLEDGE_COLORS: Record<KnowledgeLevel, { fill: string; stroke: string }> = {
+  genotype: { fill: '#dcfce7', stroke: '#16a34a' },
+  estimate: { fill: '#fef9c3', stroke: '#ca8a04' },
+  none: { fill: '#f3f4f6', stroke: '#9ca3af' }
+};
+
+const ORIGIN_LABELS: Record<LineageOrigin, string> = {
+  store: 'Магазинная линия',
+  cross: 'Скрещивание',
+  backcross: 'Бэккросс',
+  selfing: 'Самоопыление',
+  unknown: 'Происхождение неизвестно'
+};
+
+// Family tree of a strain: oldest generations on top, the inspected strain at the bottom
+const PedigreeDialog = ({ strainId, pedigree }: PedigreeDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState(strainId);
+  const graph = useMemo(() => open ? buildPedigreeGraph(pedigree, strainId) : null, [open, pedigree, strainId]);
+
+  const positions = new Map<string, { x: number; y: number }>();
+  const widest = Math.max(1, ...(graph?.layers.map(layer => layer.length) ?? []));
+  const width = widest * (NODE_WIDTH + GAP_X) + GAP_X;
+  const height = (graph?.layers.length ?? 1) * (NODE_HEIGHT + GAP_Y) + GAP_Y / 2;
+  graph?.layers.forEach((layer, layerIndex) => {
+    const offset = (width - layer.length * (NODE_WIDTH + GAP_X) + GAP_X) / 2;
+    layer.forEach((node, index) => positions.set(node.record.strainId, {
+      x: offset + index * (NODE_WIDTH + GAP_X),
+      y: GAP_Y / 2 + (graph.layers.length - 1 - layerIndex) * (NODE_HEIGHT + GAP_Y)
+    }));
+  });
+
+  const selected = pedigree[selectedId];
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); setSelectedId(strainId); }}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full mt-2">🌳 Родословная</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>🌳 Родословная: {pedigree[strainId]?.name}</DialogTitle>
+          <DialogDescription>
+            {graph ? `${graph.layers.length} поколений, ${positions.size} сортов` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-4 text-xs">
+          {(['genotype', 'estimate', 'none'] as const).map(knowledge => (
+            <span key={knowledge} className="flex items-center gap-1">
+              <span
+                className="w-3 h-3 rounded border"
+                style={{ background: KNOWLEDGE_COLORS[knowledge].fill, borderColor: KNOWLEDGE_COLORS[knowledge].stroke }}
+              />
+              {KNOWLEDGE_LABELS[knowledge]}
+            </span>
+          ))}
+          {(['cross', 'backcross', 'selfing'] as const).map(origin => (
+            <span key={origin} className="flex items-center gap-1">
+              <svg width="24" height="6">
+                <line x1="0" y1="3" x2="24" y2="3" stroke={EDGE_STYLES[origin].stroke} strokeWidth="2" strokeDasharray={EDGE_STYLES[origin].dash} />
+              </svg>
+              {EDGE_STYLES[origin].label}
+            </span>
+          ))}
+        </div>
+
+        <div className="overflow-auto max-h-[55vh] border rounded-lg bg-white">
+          {graph && (
+            <svg width={width} height={height}>
+              {graph.edges.map(edge => {
+                const parent = positions.get(edge.parentId);
+                const child = positions.get(edge.childId);
+                if (!parent || !child) return null;
+                const style = EDGE_STYLES[edge.origin];
+                const x1 = parent.x + NODE_WIDTH / 2;
+                const y1 = parent.y + NODE_HEIGHT;
+                const x2 = child.x + NODE_WIDTH / 2;
+                const y2 = child.y;
+                const midY = (y1 + y2) / 2;
+                return (
+                  <path
+                    key={`${edge.parentId}>${edge.childId}`}
+                    d={`M ${x1} ${y1} C ${x1} ${midY}, ${x2} ${midY}, ${x2} ${y2}`}
+                    fill="none"
+                    stroke={style.stroke}
+                    strokeWidth={2}
+                    strokeDasharray={style.dash}
+                  />
+                );
+              })}
+              {graph.layers.flat().map(({ record }) => {
+                const { x, y } = positions.get(record.strainId)!;
+                const isSelected = record.strainId === selectedId;
+                return (
+                  <g key={record.strainId} className="cursor-pointer" onClick={() => setSelectedId(record.strainId)}>
+                    <rect
+                      x={x}
+                      y={y}
+                      width={NODE_WIDTH}
+                      height={NODE_HEIGHT}
+                      rx={8}
+                      fill={KNOWLEDGE_COLORS[record.knowledge].fill}
+                      stroke={isSelected ? '#111827' : KNOWLEDGE_COLORS[record.knowledge].stroke}
+                      strokeWidth={isSelected ? 2.5 : 1.5}
+                    />
+                    <text x={x + NODE_WIDTH / 2} y={y + 18} textAnchor="middle" fontSize="12" fontWeight="600">
+                      {record.name.length > 16 ? `${record.name.slice(0, 15)}…` : record.name}
+                    </text>
+                    <text x={x + NODE_WIDTH / 2} y={y + 34} textAnchor="middle" fontSize="11" fill="#4b5563">
+                      {record.generation} {KNOWLEDGE_ICONS[record.knowledge]}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          )}
+        </div>
+
+        {selected && (
+          <div className="bg-plant-50 rounded-lg p-3 text-sm space-y-1">
+            <div className="font-semibold">{selected.name} · {selected.generation}</div>
+            <div className="text-gray-600">{ORIGIN_LABELS[selected.origin]}</div>
+            {selected.parentIds.length > 0 && (
+              <div className="text-gray-600">
+                Родители: {selected.parentIds.map(id => pedigree[id]?.name ?? '?').join(' × ')}
+              </div>
+            )}
+            {selected.knowledge === 'genotype' ? (
+              <div>🧬 Генотип: <span className="font-mono">{formatGenome(selected.genetics)}</span></div>
+            ) : (
+              <div className="text-gray-500">
+                {KNOWLEDGE_ICONS[selected.knowledge]} Генотип неизвестен — исследуй образец в премиум лаборатории
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PedigreeDialog;
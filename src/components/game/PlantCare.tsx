@@ -0,0 +1,75 @@
+import { Button } from '@/components/ui/button';
+import { getCareWarnings, LOW_LEVEL, NUTRIENTS, SUPPLIES, WARNING_HEALTH, type Nutrient } from '@/game/care';
+import { PESTS } from '@/game/pests';
+import type { Plant, SupplyId } from '@/game/types';
+
+interface PlantCareProps {
+  plant: Plant;
+  supplies: Record<SupplyId, number>;
+  money: number;
+  onApply: (supply: SupplyId) => void;
+  onTreat: () => void;
+}
+
+const Level = ({ label, value, warnBelow }: { label: string; value: number; warnBelow: number }) => (
+  <div className="flex items-center gap-2 text-xs">
+    <span className="w-14 shrink-0 text-gray-600">{label}</span>
+    <div className="h-1.5 flex-1 rounded-full bg-gray-200">
+      <div
+        className={`h-full rounded-full ${value < warnBelow ? 'bg-orange-500' : 'bg-plant-500'}`}
+        style={{ width: `${value}%` }}
+      />
+    </div>
+    <span className="w-8 text-right font-mono">{Math.round(value)}</span>
+  </div>
+);
+
+// Needs of a growing plant: water, N/P/K and health gauges, warnings, one-dose care buttons and treatment
+const PlantCare = ({ plant, supplies, money, onApply, onTreat }: PlantCareProps) => {
+  const warnings = getCareWarnings(plant);
+  const pest = plant.infection && PESTS[plant.infection.pest];
+  return (
+    <div className="mb-4 space-y-1">
+      {plant.infection && pest && (
+        <div className="mb-2 rounded-md bg-red-50 p-2 text-xs text-red-700 space-y-1">
+          <div className="flex justify-between font-semibold">
+            <span>{pest.icon} {pest.label}</span>
+            <span>{Math.round(plant.infection.severity)}%</span>
+          </div>
+          <Button size="sm" variant="destructive" className="w-full" onClick={onTreat} disabled={money < pest.price}>
+            💊 {pest.treatment} (${pest.price})
+          </Button>
+        </div>
+      )}
+      <Level label="❤️ Здоровье" value={plant.health} warnBelow={WARNING_HEALTH} />
+      {plant.progress < 100 && (
+        <>
+          <Level label="💧 Вода" value={plant.water} warnBelow={LOW_LEVEL} />
+          {(Object.keys(NUTRIENTS) as Nutrient[]).map(nutrient => (
+            <Level key={nutrient} label={`🧪 ${NUTRIENTS[nutrient].short}`} value={plant.nutrients[nutrient]} warnBelow={LOW_LEVEL} />
+          ))}
+          {warnings.length > 0 && (
+            <div className="pt-1 text-xs text-orange-600">{warnings.join(' · ')}</div>
+          )}
+          <div className="flex gap-1 pt-2">
+            {(Object.keys(SUPPLIES) as SupplyId[]).map(supply => (
+              <Button
+                key={supply}
+                size="sm"
+                variant="outline"
+                className="flex-1 px-1"
+                title={SUPPLIES[supply].label}
+                onClick={() => onApply(supply)}
+                disabled={supplies[supply] < 1}
+              >
+                {SUPPLIES[supply].icon} {supplies[supply]}
+              </Button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PlantCare;
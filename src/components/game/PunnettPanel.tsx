@@ -0,0 +1,106 @@
+import { MUTATION_RATE } from '@/game/genetics';
+import { formatGenome, getGenomeDistribution, getPunnettSquare, getTraitDistribution } from '@/game/punnett';
+import { TRAITS, type Locus } from '@/game/traits';
+import type { PlantGenetics } from '@/game/types';
+
+interface PunnettPanelProps {
+  parent1: PlantGenetics;
+  parent2: PlantGenetics;
+}
+
+const TOP_GENOMES = 8;
+
+const formatPercent = (probability: number) => `${(probability * 100).toFixed(probability < 0.01 ? 2 : 1)}%`;
+
+// Offspring probabilities for a cross: Punnett square per locus, combined genotypes and trait distributions
+const PunnettPanel = ({ parent1, parent2 }: PunnettPanelProps) => {
+  const genomes = getGenomeDistribution(parent1, parent2);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h5 className="font-semibold mb-2">Решётки Пеннета</h5>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {TRAITS.flatMap(trait => trait.loci.map(locus => {
+            const square = getPunnettSquare(parent1[locus as Locus], parent2[locus as Locus]);
+            return (
+              <div key={locus} className="bg-white rounded-lg p-3">
+                <div className="text-sm font-medium mb-2">{trait.icon} {trait.label} ({locus})</div>
+                <table className="w-full text-center text-sm border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="w-8" />
+                      {square.columns.map((allele, i) => (
+                        <th key={i} className="font-mono text-plant-700">{allele}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {square.cells.map((row, i) => (
+                      <tr key={i}>
+                        <th className="font-mono text-plant-700">{square.rows[i]}</th>
+                        {row.map((genotype, j) => (
+                          <td key={j} className="font-mono border border-plant-200 py-1">{genotype}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          }))}
+        </div>
+      </div>
+
+      <div>
+        <h5 className="font-semibold mb-2">Распределение признаков</h5>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {TRAITS.map(trait => {
+            const distribution = getTraitDistribution(trait, parent1, parent2);
+            const peak = Math.max(...distribution.values.map(v => v.probability));
+            return (
+              <div key={trait.id} className="bg-white rounded-lg p-3">
+                <div className="text-sm font-medium mb-2">
+                  {trait.icon} {trait.label}: ~{distribution.expected.toFixed(1)}
+                </div>
+                <div className="space-y-1">
+                  {distribution.values.map(({ value, probability }) => (
+                    <div key={value} className="flex items-center gap-2 text-xs">
+                      <span className="w-5 text-right font-mono">{value}</span>
+                      <div className="flex-1 bg-gray-200 rounded-full h-2">
+                        <div className="bg-plant-500 h-2 rounded-full" style={{ width: `${(probability / peak) * 100}%` }} />
+                      </div>
+                      <span className="w-12 text-right">{formatPercent(probability)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <h5 className="font-semibold mb-2">Вероятные генотипы</h5>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {genomes.slice(0, TOP_GENOMES).map(({ genetics, probability }) => (
+            <div key={formatGenome(genetics)} className="bg-white rounded-lg px-3 py-2 flex justify-between text-sm">
+              <span className="font-mono">{formatGenome(genetics)}</span>
+              <span className="text-gray-600">{formatPercent(probability)}</span>
+            </div>
+          ))}
+        </div>
+        {genomes.length > TOP_GENOMES && (
+          <div className="text-xs text-gray-500 mt-2">
+            И ещё {genomes.length - TOP_GENOMES} вариантов ({formatPercent(genomes.slice(TOP_GENOMES).reduce((sum, g) => sum + g.probability, 0))})
+          </div>
+        )}
+        <div className="text-xs text-gray-500 mt-2">
+          С учётом шанса мутации {formatPercent(MUTATION_RATE)} на каждый локус
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PunnettPanel;
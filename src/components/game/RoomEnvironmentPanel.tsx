@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Slider } from '@/components/ui/slider';
+import {
+  ENVIRONMENT_FACTORS, getFactorStress, getSharedOptimum, type EnvironmentFactor
+} from '@/game/environment';
+import { PEST_IDS, PESTS } from '@/game/pests';
+import type { GameState, GrowRoom, Plant } from '@/game/types';
+
+interface RoomEnvironmentPanelProps {
+  room: GrowRoom;
+  plants: Plant[];
+  pedigree: GameState['pedigree'];
+  onChange: (factor: EnvironmentFactor, value: number) => void;
+}
+
+const percent = (factor: EnvironmentFactor, value: number) => {
+  const { min, max } = ENVIRONMENT_FACTORS[factor];
+  return ((value - min) / (max - min)) * 100;
+};
+
+// Climate controls of a room: each gauge shows the band all its plants are happy with and the current setting;
+// conditions that invite pests are called out below. Optima follow from the genotype, so the band only counts
+// plants whose genotype has been researched. A slider only changes the room when released, so one drag
+// is one climate change (and one undo step); the gauge follows the drag meanwhile.
+const RoomEnvironmentPanel = ({ room, plants, pedigree, onChange }: RoomEnvironmentPanelProps) => {
+  const [drag, setDrag] = useState<{ factor: EnvironmentFactor; value: number } | null>(null);
+  const risks = PEST_IDS.filter(pest => plants.some(plant => PESTS[pest].favoured(room.environment, plant)));
+  const known = plants.filter(plant => pedigree[plant.lineage.strainId]?.knowledge === 'genotype');
+  const unknown = plants.length - known.length;
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 rounded-lg bg-white/60 p-4">
+      {(Object.keys(ENVIRONMENT_FACTORS) as EnvironmentFactor[]).map(factor => {
+        const definition = ENVIRONMENT_FACTORS[factor];
+        const value = drag?.factor === factor ? drag.value : room.environment[factor];
+        const optimum = getSharedOptimum(known.map(plant => plant.genetics), factor);
+        const inBand = optimum && getFactorStress(factor, value, optimum) === 0;
+        return (
+          <div key={factor} className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>{definition.icon} {definition.label}</span>
+              <span className={`font-mono font-semibold ${known.length === 0 || inBand ? 'text-plant-700' : 'text-orange-600'}`}>
+                {value}{definition.unit}
+              </span>
+            </div>
+            <div className="relative h-2 rounded-full bg-gray-200">
+              {optimum && (
+                <div
+                  className="absolute h-full rounded-full bg-plant-400"
+                  style={{ left: `${percent(factor, optimum.min)}%`, width: `${Math.max(2, percent(factor, optimum.max) - percent(factor, optimum.min))}%` }}
+                />
+              )}
+              <div className="absolute -top-1 h-4 w-1 rounded bg-gray-800" style={{ left: `calc(${percent(factor, value)}% - 2px)` }} />
+            </div>
+            <Slider
+              min={definition.min}
+              max={definition.max}
+              step={definition.step}
+              value={[value]}
+              onValueChange={([next]) => setDrag({ factor, value: next })}
+              onValueCommit={([next]) => {
+                setDrag(null);
+                if (next !== room.environment[factor]) onChange(factor, next);
+              }}
+            />
+            <div className="text-xs text-gray-500">
+              {plants.length === 0
+                ? 'Нет растений'
+                : known.length === 0
+                  ? 'Оптимум неизвестен: нужен анализ генотипа'
+                  : optimum
+                    ? `Оптимум: ${optimum.min}–${optimum.max}${definition.unit}${unknown > 0 ? ` (без ${unknown} неисследованных)` : ''}`
+                    : 'Растениям нужны разные условия'}
+            </div>
+          </div>
+        );
+      })}
+      {risks.length > 0 && (
+        <div className="md:col-span-2 lg:col-span-4 text-xs text-red-600">
+          {risks.map(pest => `${PESTS[pest].icon} Риск: ${PESTS[pest].label.toLowerCase()} — ${PESTS[pest].condition}`).join(' · ')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoomEnvironmentPanel;
@@ -0,0 +1,54 @@
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { downloadText } from '@/lib/download';
+import type { SaveError } from '@/game/save';
+
+interface SaveRecoveryProps {
+  error: SaveError;
+  onReset: () => void;
+}
+
+// Shown instead of the farm when the saved game can't be read; the broken save stays untouched
+// until the player has had a chance to take a copy. Without raw text (storage failed) there is nothing to copy.
+const SaveRecovery = ({ error, onReset }: SaveRecoveryProps) => (
+  <div className="min-h-screen bg-gradient-to-br from-plant-50 to-plant-100 p-4 flex items-center justify-center">
+    <Card className="max-w-2xl w-full">
+      <CardHeader>
+        <CardTitle className="text-plant-800">⚠️ Не удалось загрузить сохранение</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-gray-700">{error.message}.</p>
+        {error.details.length > 0 && (
+          <div className="max-h-48 overflow-auto rounded bg-gray-50 p-3 font-mono text-xs text-gray-600 space-y-1">
+            {error.details.slice(0, 20).map((detail, index) => <div key={index}>{detail}</div>)}
+            {error.details.length > 20 && <div>…и ещё {error.details.length - 20}</div>}
+          </div>
+        )}
+        <p className="text-sm text-gray-600">
+          Скачайте копию сохранения, прежде чем начинать заново, или откатите ферму к автосохранению в менеджере сохранений. При новой игре повреждённая ферма останется отдельным слотом.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {error.raw && (
+            <>
+              <Button variant="outline" onClick={() => downloadText(error.raw, 'weedgroove-save-broken.json')}>
+                💾 Скачать сохранение
+              </Button>
+              <Button variant="outline" onClick={() => navigator.clipboard?.writeText(error.raw)}>
+                📋 Скопировать
+              </Button>
+            </>
+          )}
+          <Button asChild variant="outline">
+            <Link to="/saves">🗂️ Другие сохранения</Link>
+          </Button>
+          <Button className="bg-plant-600 hover:bg-plant-700" onClick={onReset}>
+            🌱 Начать новую игру
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  </div>
+);
+
+export default SaveRecovery;
@@ -0,0 +1,61 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { encodeShareCode } from '@/game/shareCode';
+
+interface ShareCodeDialogProps {
+  name: string;
+  getSave: () => Promise<string | null>;
+}
+
+// Share code of one save slot, built when the dialog opens so it matches the latest autosave
+const ShareCodeDialog = ({ name, getSave }: ShareCodeDialogProps) => {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // Bumped on every open and close, so a code that arrives after the dialog closed is dropped
+  const request = useRef(0);
+
+  const onOpenChange = async (open: boolean) => {
+    const current = ++request.current;
+    setCode('');
+    setError(null);
+    if (!open) return;
+    try {
+      const save = await getSave();
+      const encoded = save && await encodeShareCode(save);
+      if (current !== request.current) return;
+      if (encoded) setCode(encoded);
+      else setError('Сохранение не найдено');
+    } catch (reason) {
+      console.error('Could not build share code:', reason);
+      if (current === request.current) setError('Не удалось создать код фермы');
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">🔗 Код</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>🔗 Код фермы «{name}»</DialogTitle>
+          <DialogDescription>
+            Вставьте код в менеджере сохранений на другом устройстве, чтобы получить копию фермы
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <p className="text-sm text-red-600">⚠️ {error}</p>
+        ) : (
+          <Textarea readOnly value={code || 'Сжимаем…'} className="h-40 font-mono text-xs break-all" onFocus={(e) => e.target.select()} />
+        )}
+        <Button variant="outline" disabled={!code} onClick={() => navigator.clipboard?.writeText(code)}>
+          📋 Скопировать
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareCodeDialog;
@@ -0,0 +1,34 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { SUPPLIES } from '@/game/care';
+import type { SupplyId } from '@/game/types';
+
+interface SupplyShelfProps {
+  supplies: Record<SupplyId, number>;
+  money: number;
+  onBuy: (supply: SupplyId) => void;
+}
+
+// Stock of water and fertilizer, bought in packs
+const SupplyShelf = ({ supplies, money, onBuy }: SupplyShelfProps) => (
+  <Card className="bg-white/80">
+    <CardContent className="flex flex-wrap items-center gap-4 p-4">
+      <span className="font-semibold text-plant-800">🧺 Запасы</span>
+      {(Object.keys(SUPPLIES) as SupplyId[]).map(supply => {
+        const { label, icon, price, pack } = SUPPLIES[supply];
+        return (
+          <div key={supply} className="flex items-center gap-2 text-sm">
+            <span className={supplies[supply] === 0 ? 'text-red-600' : ''}>
+              {icon} {label}: <span className="font-mono font-semibold">{supplies[supply]}</span>
+            </span>
+            <Button size="sm" variant="outline" onClick={() => onBuy(supply)} disabled={money < price}>
+              +{pack} за ${price}
+            </Button>
+          </div>
+        );
+      })}
+    </CardContent>
+  </Card>
+);
+
+export default SupplyShelf;
@@ -0,0 +1,111 @@
+import { Badge } from '@/components/ui/badge';
+import { ESTIMATE_MARGIN } from '@/game/lab';
+import { TRAITS } from '@/game/traits';
+import type { KnowledgeLevel, PlantGenetics, PlantTraits, TraitEstimates } from '@/game/types';
+
+interface TraitDisplayProps {
+  traits: PlantTraits;
+}
+
+export const TraitBar = ({ value, max = 10 }: { value: number; max?: number }) => (
+  <div className="w-full bg-gray-200 rounded-full h-2">
+    <div
+      className="bg-plant-500 h-2 rounded-full"
+      style={{ width: `${(value / max) * 100}%` }}
+    />
+  </div>
+);
+
+// Compact icon + value grid used on plant and bud cards
+export const TraitGrid = ({ traits }: TraitDisplayProps) => (
+  <div className="grid grid-cols-4 gap-2 mb-4 text-sm">
+    {TRAITS.map(trait => (
+      <div key={trait.id} className="text-center">
+        <div className="font-semibold">{trait.icon} {traits[trait.id]}</div>
+        <div className="text-xs opacity-70">{trait.label}</div>
+      </div>
+    ))}
+  </div>
+);
+
+// Labelled value bars used on seed and store cards
+export const TraitBars = ({ traits }: TraitDisplayProps) => (
+  <div className="space-y-2 mb-4">
+    {TRAITS.map(trait => (
+      <div key={trait.id} className="space-y-2">
+        <div className="flex justify-between items-center">
+          <span className="text-sm">{trait.icon} {trait.label}:</span>
+          <span className="text-sm font-medium">{traits[trait.id]}/{trait.range[1]}</span>
+        </div>
+        <TraitBar value={traits[trait.id]} max={trait.range[1]} />
+      </div>
+    ))}
+  </div>
+);
+
+// Plain text lines used in the crossbreeding parent slots
+export const TraitList = ({ traits }: TraitDisplayProps) => (
+  <div className="space-y-1 text-sm">
+    {TRAITS.map(trait => (
+      <div key={trait.id}>{trait.icon} {trait.label}: {traits[trait.id]}/{trait.range[1]}</div>
+    ))}
+  </div>
+);
+
+// Basic lab readings with their confidence intervals
+export const EstimateGrid = ({ estimates }: { estimates: TraitEstimates }) => (
+  <div className="grid grid-cols-4 gap-2 mb-4 text-sm">
+    {TRAITS.map(trait => (
+      <div key={trait.id} className="text-center">
+        <div className="font-semibold">{trait.icon} ~{estimates[trait.id].value}</div>
+        <div className="text-xs opacity-70">{estimates[trait.id].low}–{estimates[trait.id].high}</div>
+        <div className="text-xs opacity-70">{trait.label}</div>
+      </div>
+    ))}
+  </div>
+);
+
+// Exact genotype per locus, including recessive alleles hidden by the phenotype
+export const GenotypeRow = ({ genetics }: { genetics: PlantGenetics }) => (
+  <div className="flex flex-wrap justify-center gap-2 mb-4 text-xs">
+    {TRAITS.map(trait => (
+      <Badge key={trait.id} variant="outline" className="font-mono">
+        {trait.icon} {trait.loci.map(locus => genetics[locus]).join(' ')}
+      </Badge>
+    ))}
+  </div>
+);
+
+interface ResearchedItem {
+  traits: PlantTraits;
+  genetics: PlantGenetics;
+  knowledge: KnowledgeLevel;
+  estimates: TraitEstimates | null;
+}
+
+// Whatever the player has learned about a bud or seed
+export const KnowledgeView = ({ item, bars = false }: { item: ResearchedItem; bars?: boolean }) => {
+  if (item.knowledge === 'genotype') {
+    return (
+      <>
+        {bars ? <TraitBars traits={item.traits} /> : <TraitGrid traits={item.traits} />}
+        <GenotypeRow genetics={item.genetics} />
+      </>
+    );
+  }
+  if (item.knowledge === 'estimate' && item.estimates) {
+    return (
+      <>
+        <EstimateGrid estimates={item.estimates} />
+        <div className="text-center mb-4 text-xs text-gray-500">
+          📊 Оценка ±{ESTIMATE_MARGIN} — точный генотип покажет премиум лаборатория
+        </div>
+      </>
+    );
+  }
+  return (
+    <div className="text-center mb-4 text-gray-500">
+      ❓ Характеристики неизвестны
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import type { GameState, Nutrients, Plant, PlantStage, SupplyId } from './types';
+
+// Plant care: water and N/P/K are used up as a plant grows, and refilled from supplies bought in doses.
+// A plant short on anything slowly loses health; at zero it dies. Ripe plants no longer use anything.
+export type Nutrient = keyof Nutrients;
+
+export interface SupplyDefinition {
+  label: string;
+  icon: string;
+  price: number; // Per pack
+  pack: number; // Doses per purchase
+  water: number; // Added per dose
+  nutrients: Nutrients; // Added per dose
+}
+
+export const SUPPLIES: Record<SupplyId, SupplyDefinition> = {
+  water: { label: 'Вода', icon: '💧', price: 20, pack: 10, water: 60, nutrients: { n: 0, p: 0, k: 0 } },
+  grow: { label: 'Удобрение «Рост»', icon: '🌿', price: 60, pack: 5, water: 10, nutrients: { n: 50, p: 15, k: 25 } },
+  bloom: { label: 'Удобрение «Цветение»', icon: '🌸', price: 80, pack: 5, water: 10, nutrients: { n: 10, p: 45, k: 40 } }
+};
+
+export const NUTRIENTS: Record<Nutrient, { label: string; short: string }> = {
+  n: { label: 'Азот', short: 'N' },
+  p: { label: 'Фосфор', short: 'P' },
+  k: { label: 'Калий', short: 'K' }
+};
+
+export const STARTER_SUPPLIES: Record<SupplyId, number> = { water: 10, grow: 3, bloom: 3 };
+
+export const FRESH_NUTRIENTS: Nutrients = { n: 50, p: 50, k: 50 };
+
+// Use per 1% of growth in each stage: leafy growth wants nitrogen, flowers want phosphorus and potassium.
+// A full grow takes about two waterings and one dose of each fertilizer.
+export const STAGE_NEEDS: Record<PlantStage, { water: number } & Nutrients> = {
+  seed: { water: 1.5, n: 0, p: 0, k: 0 },
+  sprout: { water: 2, n: 0.8, p: 0.4, k: 0.4 },
+  vegetative: { water: 2.5, n: 1.5, p: 0.5, k: 0.8 },
+  flowering: { water: 2.5, n: 0.5, p: 2, k: 1.8 },
+  harvest: { water: 1.5, n: 0, p: 0.5, k: 0.5 }
+};
+
+export const LOW_LEVEL = 20; // Below this a resource counts as short
+export const HEALTH_DAMAGE = 0.05; // Health lost per tick for each short resource: one shortage takes over a game day to kill
+export const HEALTH_RECOVERY = 0.3; // Health regained per tick when nothing is short
+export const WARNING_HEALTH = 50;
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value));
+
+// Below the low level a plant wilts and stops growing until watered
+export const isWilting = (plant: Plant): boolean => plant.progress < 100 && plant.water < LOW_LEVEL;
+
+export const getShortNutrients = (plant: Plant): Nutrient[] =>
+  (Object.keys(NUTRIENTS) as Nutrient[]).filter(nutrient =>
+    STAGE_NEEDS[plant.stage][nutrient] > 0 && plant.nutrients[nutrient] < LOW_LEVEL);
+
+// Warnings for a plant card, empty when the plant is fine
+export const getCareWarnings = (plant: Plant): string[] => [
+  ...(isWilting(plant) ? ['🥀 Вянет без воды'] : []),
+  ...getShortNutrients(plant).map(nutrient => `🧪 Не хватает: ${NUTRIENTS[nutrient].label.toLowerCase()}`),
+  ...(plant.health < WARNING_HEALTH ? [`❤️‍🩹 Здоровье ${Math.round(plant.health)}%`] : [])
+];
+
+// Share of the normal growth rate and of the harvest the plant's health allows
+export const getHealthFactor = (plant: Plant): number => 0.5 + plant.health / 200;
+
+// One tick of use: drain water and nutrients for the growth the plant made, then take or restore health.
+// A wilting plant does not grow, so it uses nothing, but keeps losing health until watered.
+export const consumeNeeds = (plant: Plant, growth: number): Plant => {
+  if (plant.progress >= 100) return plant;
+  const needs = STAGE_NEEDS[plant.stage];
+  const water = clamp(plant.water - needs.water * growth);
+  const nutrients: Nutrients = {
+    n: clamp(plant.nutrients.n - needs.n * growth),
+    p: clamp(plant.nutrients.p - needs.p * growth),
+    k: clamp(plant.nutrients.k - needs.k * growth)
+  };
+  const next = { ...plant, water, nutrients };
+  const short = (water < LOW_LEVEL ? 1 : 0) + getShortNutrients(next).length;
+  const health = clamp(short > 0 ? plant.health - short * HEALTH_DAMAGE : plant.health + HEALTH_RECOVERY);
+  return { ...next, health };
+};
+
+export const buySupply = (state: GameState, supply: SupplyId): GameState => {
+  const { price, pack } = SUPPLIES[supply];
+  if (state.gameStats.money < price) return state;
+
+  return {
+    ...state,
+    supplies: { ...state.supplies, [supply]: state.supplies[supply] + pack },
+    gameStats: { ...state.gameStats, money: state.gameStats.money - price }
+  };
+};
+
+// Spend one dose on a growing plant
+export const applySupply = (state: GameState, plantId: string, supply: SupplyId): GameState => {
+  const plant = state.plants.find(p => p.id === plantId);
+  if (!plant || plant.progress >= 100 || state.supplies[supply] < 1) return state;
+
+  const dose = SUPPLIES[supply];
+  const cared: Plant = {
+    ...plant,
+    water: clamp(plant.water + dose.water),
+    nutrients: {
+      n: clamp(plant.nutrients.n + dose.nutrients.n),
+      p: clamp(plant.nutrients.p + dose.nutrients.p),
+      k: clamp(plant.nutrients.k + dose.nutrients.k)
+    }
+  };
+  return {
+    ...state,
+    plants: state.plants.map(p => p.id === plantId ? cared : p),
+    supplies: { ...state.supplies, [supply]: state.supplies[supply] - 1 }
+  };
+};
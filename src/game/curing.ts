@@ -0,0 +1,103 @@
+import { createIdGenerator } from './ids';
+import { logEvents } from './journal';
+import { getBudJob } from './lab';
+import { HOUR_MS } from './time';
+import type { BudItem, GameState, HarvestBatch, Plant, QualityGrade } from './types';
+
+// Post-harvest: a harvest dries on a rack, then cures in a jar. Quality starts from how well the plant
+// was grown, rises while curing up to a peak, holds for a while and then degrades if the jar is forgotten.
+// Packing a dry batch turns it into buds with a quality grade.
+export const DRYING_RACKS = 4;
+export const CURING_JARS = 6;
+export const DRYING_TIME = 4 * HOUR_MS;
+export const CURE_PEAK = 12 * HOUR_MS; // Curing time until quality stops rising
+export const CURE_GRACE = 12 * HOUR_MS; // Time at the peak before quality starts to fall
+export const CURE_GAIN_PER_HOUR = 2.5;
+export const CURE_DECAY_PER_HOUR = 2;
+
+export const QUALITY_GRADES: Record<QualityGrade, { label: string; min: number; price: number }> = {
+  S: { label: 'Элитное', min: 90, price: 1.6 },
+  A: { label: 'Отличное', min: 75, price: 1.3 },
+  B: { label: 'Хорошее', min: 55, price: 1 },
+  C: { label: 'Среднее', min: 35, price: 0.75 },
+  D: { label: 'Низкое', min: 0, price: 0.5 }
+};
+
+const GRADES = Object.keys(QUALITY_GRADES) as QualityGrade[]; // Best first
+
+export const getQualityGrade = (quality: number): QualityGrade =>
+  GRADES.find(grade => quality >= QUALITY_GRADES[grade].min) ?? 'D';
+
+// Quality the harvest starts drying with: a calm, healthy grow gives 60, a stressed or sick one down to 30
+export const getHarvestQuality = (plant: Plant): number =>
+  Math.round(30 + 30 * (1 - plant.stress) * plant.health / 100);
+
+export const isDry = (batch: HarvestBatch, gameTime: number): boolean =>
+  batch.stage === 'curing' || gameTime - batch.stageStartedAt >= DRYING_TIME;
+
+export const getDryingProgress = (batch: HarvestBatch, gameTime: number): number =>
+  batch.stage === 'curing' ? 1 : Math.min(1, (gameTime - batch.stageStartedAt) / DRYING_TIME);
+
+// Quality at a moment: drying keeps it, curing adds up to the peak, an ignored jar loses it again
+export const getBatchQuality = (batch: HarvestBatch, gameTime: number): number => {
+  if (batch.stage === 'drying') return batch.quality;
+  const cured = gameTime - batch.stageStartedAt;
+  const gain = Math.min(cured, CURE_PEAK) / HOUR_MS * CURE_GAIN_PER_HOUR;
+  const loss = Math.max(0, cured - CURE_PEAK - CURE_GRACE) / HOUR_MS * CURE_DECAY_PER_HOUR;
+  return Math.round(Math.min(100, Math.max(0, batch.quality + gain - loss)));
+};
+
+// Past the peak: waiting longer only risks quality
+export const isCured = (batch: HarvestBatch, gameTime: number): boolean =>
+  batch.stage === 'curing' && gameTime - batch.stageStartedAt >= CURE_PEAK;
+
+export const getFreeRacks = (state: GameState): number =>
+  DRYING_RACKS - state.batches.filter(batch => batch.stage === 'drying').length;
+
+export const getFreeJars = (state: GameState): number =>
+  CURING_JARS - state.batches.filter(batch => batch.stage === 'curing').length;
+
+export const jarBatch = (state: GameState, batchId: string): GameState => {
+  const batch = state.batches.find(b => b.id === batchId);
+  if (!batch || batch.stage !== 'drying' || !isDry(batch, state.gameTime) || getFreeJars(state) < 1) return state;
+
+  return {
+    ...state,
+    batches: state.batches.map(b => b.id === batchId ? { ...b, stage: 'curing', stageStartedAt: state.gameTime } : b)
+  };
+};
+
+// Dry batches go to the inventory at their current grade, on the unresearched stack of that strain and grade.
+// A stack queued or running in the lab is left alone: its result must describe the buds that were sent.
+export const packBatch = (state: GameState, batchId: string): GameState => {
+  const batch = state.batches.find(b => b.id === batchId);
+  if (!batch || !isDry(batch, state.gameTime)) return state;
+
+  const ids = createIdGenerator(state.nextId);
+  const grade = getQualityGrade(getBatchQuality(batch, state.gameTime));
+  const existing = state.buds.find(item =>
+    item.lineage.strainId === batch.lineage.strainId && item.knowledge === 'none' && item.grade === grade
+    && !getBudJob(state, item.id));
+  const budId = existing?.id ?? ids.next('bud');
+  const buds: BudItem[] = existing
+    ? state.buds.map(item => item.id === existing.id ? { ...item, quantity: item.quantity + batch.quantity } : item)
+    : [...state.buds, {
+        id: budId,
+        name: batch.name,
+        quantity: batch.quantity,
+        genetics: batch.genetics,
+        traits: batch.traits,
+        knowledge: 'none',
+        estimates: null,
+        lineage: batch.lineage,
+        harvestedAt: batch.harvestedAt,
+        grade
+      }];
+
+  return logEvents({
+    ...state,
+    buds,
+    batches: state.batches.filter(b => b.id !== batchId),
+    nextId: ids.state
+  }, { type: 'pack', at: state.gameTime, strainId: batch.lineage.strainId, name: batch.name, budId, quantity: batch.quantity, grade });
+};
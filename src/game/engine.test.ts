@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { DRYING_TIME } from './curing';
+import { createInitialState, gameReducer, getBudPrice, SEED_CONVERSION_COST, TICK_MS, type GameAction } from './engine';
+import { storeStrains } from './strains';
+import type { GameState, Plant } from './types';
+
+const [ogKush, lemonHaze] = storeStrains;
+
+const play = (state: GameState, ...actions: GameAction[]) => actions.reduce(gameReducer, state);
+
+const newFarm = (seed = 'TEST') => createInitialState(0, seed);
+
+// A farm with one freshly planted OG Kush
+const plantedFarm = () => {
+  const bought = play(newFarm(), { type: 'buySeed', strainName: ogKush.name });
+  return play(bought, { type: 'plantSeed', seedId: bought.seeds[0].id, roomId: bought.rooms[0].id });
+};
+
+const updatePlant = (state: GameState, update: Partial<Plant>): GameState =>
+  ({ ...state, plants: state.plants.map(plant => ({ ...plant, ...update })) });
+
+// Harvest a ripe plant, let it dry and pack it into buds
+const packedFarm = () => {
+  const ripe = updatePlant(plantedFarm(), { progress: 100, stage: 'harvest' });
+  const harvested = play(ripe, { type: 'harvestPlant', plantId: ripe.plants[0].id });
+  const dried = play(harvested, { type: 'tick', ticks: DRYING_TIME / TICK_MS });
+  return play(dried, { type: 'packBatch', batchId: dried.batches[0].id });
+};
+
+describe('gameReducer', () => {
+  it('buys store seeds with known genetics and stacks repeat purchases', () => {
+    const state = play(newFarm(), { type: 'buySeed', strainName: ogKush.name }, { type: 'buySeed', strainName: ogKush.name });
+    expect(state.gameStats.money).toBe(1000 - 2 * ogKush.price);
+    expect(state.seeds).toHaveLength(1);
+    expect(state.seeds[0]).toMatchObject({ quantity: 2, genetics: ogKush.genetics, knowledge: 'genotype' });
+    expect(state.pedigree[ogKush.id]).toMatchObject({ origin: 'store', generation: 'P' });
+  });
+
+  it('refuses a purchase the farm cannot afford', () => {
+    const broke = newFarm();
+    const state = { ...broke, gameStats: { ...broke.gameStats, money: 0 } };
+    expect(play(state, { type: 'buySeed', strainName: ogKush.name })).toBe(state);
+  });
+
+  it('plants a seed into a free pot', () => {
+    const state = plantedFarm();
+    expect(state.seeds).toHaveLength(0);
+    expect(state.plants).toHaveLength(1);
+    expect(state.plants[0]).toMatchObject({ name: ogKush.name, stage: 'seed', progress: 0, water: 100, health: 100 });
+    expect(state.journal.map(event => event.type)).toEqual(['buy', 'plant']);
+  });
+
+  it('grows plants one tick at a time, using water as they grow', () => {
+    const planted = plantedFarm();
+    const state = play(planted, { type: 'tick', ticks: 10 });
+    expect(state.gameTime).toBe(planted.gameTime + 10 * TICK_MS);
+    expect(state.plants[0].progress).toBeGreaterThan(0);
+    expect(state.plants[0].water).toBeLessThan(100);
+  });
+
+  it('waters a plant from the supply shelf', () => {
+    const dry = updatePlant(plantedFarm(), { water: 10 });
+    const state = play(dry, { type: 'applySupply', plantId: dry.plants[0].id, supply: 'water' });
+    expect(state.plants[0].water).toBe(70);
+    expect(state.supplies.water).toBe(dry.supplies.water - 1);
+  });
+
+  it('harvests only ripe plants, onto a drying rack', () => {
+    const growing = plantedFarm();
+    expect(play(growing, { type: 'harvestPlant', plantId: growing.plants[0].id })).toBe(growing);
+
+    const ripe = updatePlant(growing, { progress: 100, stage: 'harvest' });
+    const state = play(ripe, { type: 'harvestPlant', plantId: ripe.plants[0].id });
+    expect(state.plants).toHaveLength(0);
+    expect(state.batches).toHaveLength(1);
+    expect(state.batches[0]).toMatchObject({ name: ogKush.name, stage: 'drying' });
+    expect(state.gameStats.totalHarvested).toBe(1);
+  });
+
+  it('sells buds at their price', () => {
+    const packed = packedFarm();
+    const [item] = packed.buds;
+    const state = play(packed, { type: 'sellBuds', itemId: item.id });
+    expect(state.buds).toHaveLength(0);
+    expect(state.gameStats.money).toBe(packed.gameStats.money + getBudPrice(item) * item.quantity);
+  });
+
+  it('turns buds into half as many seeds of the same strain', () => {
+    const packed = packedFarm();
+    const [item] = packed.buds;
+    const state = play(packed, { type: 'convertBudsToSeeds', itemId: item.id });
+    expect(state.buds).toHaveLength(0);
+    expect(state.seeds).toEqual([expect.objectContaining({
+      name: `${item.name} (семена)`,
+      quantity: Math.floor(item.quantity / 2),
+      genetics: item.genetics,
+      lineage: item.lineage
+    })]);
+    expect(state.gameStats.money).toBe(packed.gameStats.money - SEED_CONVERSION_COST);
+  });
+
+  it('crossbreeds the same hybrid from the same seed', () => {
+    const cross = (seed: string) => {
+      const bought = play(newFarm(seed), { type: 'buySeed', strainName: ogKush.name }, { type: 'buySeed', strainName: lemonHaze.name });
+      return play(bought, { type: 'crossbreedSeeds', seed1Id: bought.seeds[0].id, seed2Id: bought.seeds[1].id });
+    };
+    const state = cross('SEED');
+    expect(cross('SEED')).toEqual(state);
+
+    const [hybrid] = state.seeds;
+    expect(state.seeds).toHaveLength(1);
+    expect(hybrid).toMatchObject({ quantity: 1, knowledge: 'none' });
+    expect(state.pedigree[hybrid.lineage.strainId].parentIds).toEqual([ogKush.id, lemonHaze.id]);
+    expect(state.rng.state).not.toBe(newFarm('SEED').rng.state);
+    expect(state.gameStats.crossbreedingAttempts).toBe(1);
+  });
+});
@@ -0,0 +1,401 @@
+import { applySupply, buySupply, consumeNeeds, FRESH_NUTRIENTS, getHealthFactor, isWilting, STARTER_SUPPLIES } from './care';
+import { getFreeRacks, getHarvestQuality, jarBatch, packBatch, QUALITY_GRADES } from './curing';
+import { DEFAULT_ENVIRONMENT, getEnvironmentStress, STRESS_GROWTH_PENALTY, STRESS_YIELD_PENALTY } from './environment';
+import { calculateTraits, crossGenetics, generateHybridName } from './genetics';
+import { advanceLab, cancelJob, getBudJob, queueResearch } from './lab';
+import { createIdGenerator } from './ids';
+import { describeDeath, getDeathIcon, logEvents } from './journal';
+import { advancePests, treatPlant } from './pests';
+import { getHybridGeneration, toLineage } from './pedigree';
+import { createRng, createRngState } from './random';
+import { buyPot, buyRoom, createRoom, getFreePots, setEnvironment } from './rooms';
+import type { EnvironmentFactor } from './environment';
+import { storeStrains } from './strains';
+import { DAY_MS, HOUR_MS } from './time';
+import type { BudItem, DeathCause, GameState, HarvestBatch, LabType, Plant, PlantStage, RoomEnvironment, SeedItem, StrainRecord, SupplyId } from './types';
+
+export const TICK_MS = 60 * 1000; // Game ms per tick
+export const TICK_REAL_MS = 1000; // Real ms per tick at 1× speed
+export const SEED_CONVERSION_COST = 100;
+export const DEFAULT_OFFLINE_CAP_HOURS = 24;
+
+export type GameAction =
+  | { type: 'tick'; ticks?: number }
+  | { type: 'sleep'; hours: number }
+  | { type: 'buySeed'; strainName: string }
+  | { type: 'plantSeed'; seedId: string; roomId: string }
+  | { type: 'buyRoom' }
+  | { type: 'buyPot'; roomId: string }
+  | { type: 'setEnvironment'; roomId: string; factor: EnvironmentFactor; value: number }
+  | { type: 'buySupply'; supply: SupplyId }
+  | { type: 'applySupply'; plantId: string; supply: SupplyId }
+  | { type: 'treatPlant'; plantId: string }
+  | { type: 'harvestPlant'; plantId: string }
+  | { type: 'jarBatch'; batchId: string }
+  | { type: 'packBatch'; batchId: string }
+  | { type: 'sellBuds'; itemId: string }
+  | { type: 'convertBudsToSeeds'; itemId: string }
+  | { type: 'researchBuds'; itemId: string; labType: LabType }
+  | { type: 'cancelLabJob'; jobId: string }
+  | { type: 'dismissNotifications'; ids: string[] }
+  | { type: 'crossbreedSeeds'; seed1Id: string; seed2Id: string }
+  | { type: 'setOfflineCap'; hours: number }
+  | { type: 'load'; state: GameState };
+
+export const createInitialState = (now = Date.now(), seed?: string): GameState => {
+  const ids = createIdGenerator(1);
+  return {
+    rooms: [createRoom(ids.next('room'), 0)],
+    plants: [],
+    buds: [],
+    seeds: [],
+    batches: [],
+    supplies: STARTER_SUPPLIES,
+    gameStats: {
+      money: 1000,
+      totalHarvested: 0,
+      bestYield: 0,
+      bestPotency: 0,
+      experimentsCount: 0,
+      crossbreedingAttempts: 0
+    },
+    startedAt: now,
+    gameTime: now,
+    rng: createRngState(seed),
+    nextId: ids.state,
+    pedigree: {},
+    labJobs: [],
+    notifications: [],
+    journal: [],
+    settings: { offlineCapHours: DEFAULT_OFFLINE_CAP_HOURS }
+  };
+};
+
+// Farm day counted from 1
+export const getGameDay = (state: GameState): number => Math.floor((state.gameTime - state.startedAt) / DAY_MS) + 1;
+
+// In-game calendar for now or any past moment; the farm is founded at midnight of day 1
+export const getCalendar = (state: GameState, time = state.gameTime) => {
+  const sinceMidnight = (time - state.startedAt) % DAY_MS;
+  return {
+    day: Math.floor((time - state.startedAt) / DAY_MS) + 1,
+    hour: Math.floor(sinceMidnight / HOUR_MS),
+    minute: Math.floor(sinceMidnight / TICK_MS) % 60
+  };
+};
+
+// Unknown items sell for less; basic lab estimates are priced at face value. The quality grade scales any price.
+export const getBudPrice = (item: BudItem): number => Math.round(getBaseBudPrice(item) * QUALITY_GRADES[item.grade].price);
+
+const getBaseBudPrice = (item: BudItem): number => {
+  switch (item.knowledge) {
+    case 'genotype': return item.traits.yield * item.traits.potency * 10;
+    case 'estimate': return item.estimates ? item.estimates.yield.value * item.estimates.potency.value * 10 : 50;
+    default: return 50;
+  }
+};
+
+const getStageForProgress = (progress: number): PlantStage => {
+  if (progress >= 80) return 'harvest';
+  if (progress >= 60) return 'flowering';
+  if (progress >= 30) return 'vegetative';
+  if (progress >= 10) return 'sprout';
+  return 'seed';
+};
+
+// A tick of growth: the full rate in the strain's optimal climate, slower under stress or poor health, and
+// none while wilting. Stress is averaged over the plant's life until it is fully grown.
+const growPlant = (plant: Plant, environment: RoomEnvironment, gameTime: number): Plant => {
+  if (plant.progress >= 100) return plant;
+  const stress = getEnvironmentStress(environment, plant.genetics);
+  const ratePerMinute = isWilting(plant)
+    ? 0
+    : 100 / (120 - plant.traits.speed * 10) * (1 - STRESS_GROWTH_PENALTY * stress) * getHealthFactor(plant);
+  const progress = Math.min(100, plant.progress + ratePerMinute * TICK_MS / 60000);
+  const cared = consumeNeeds(plant, progress - plant.progress);
+  const age = Math.max(1, (gameTime - plant.plantedAt) / TICK_MS);
+  return { ...cared, progress, stress: plant.stress + (stress - plant.stress) / age, stage: getStageForProgress(progress) };
+};
+
+// Buds a plant gives at harvest; lifetime stress and poor health cost part of the genetic yield
+export const getHarvestYield = (plant: Plant): number =>
+  Math.max(1, Math.round(plant.traits.yield * (1 - STRESS_YIELD_PENALTY * plant.stress) * getHealthFactor(plant)));
+
+// Plants whose health ran out are removed, with a notification and a journal entry
+const removeDeadPlants = (state: GameState, causeOf: (plant: Plant) => DeathCause): GameState => {
+  const dead = state.plants.filter(plant => plant.health <= 0);
+  if (dead.length === 0) return state;
+  return logEvents({
+    ...state,
+    plants: state.plants.filter(plant => plant.health > 0),
+    notifications: [...state.notifications, ...dead.map(plant => ({
+      id: `${plant.id}-died`,
+      message: `${getDeathIcon(causeOf(plant))} ${describeDeath(plant.name, causeOf(plant))}`,
+      createdAt: state.gameTime
+    }))]
+  }, ...dead.map(plant => ({
+    type: 'death' as const,
+    at: state.gameTime,
+    strainId: plant.lineage.strainId,
+    name: plant.name,
+    plantId: plant.id,
+    cause: causeOf(plant)
+  })));
+};
+
+// One fixed simulation step; plants grow to the time the step ends at
+const tick = (state: GameState): GameState => {
+  const gameTime = state.gameTime + TICK_MS;
+  const environments = new Map(state.rooms.map(room => [room.id, room.environment]));
+  const plants = state.plants.map(plant => growPlant(plant, environments.get(plant.roomId) ?? DEFAULT_ENVIRONMENT, gameTime));
+  // Shortages and pests take health in separate steps, so a death is put down to the step that ended it
+  const survivors = removeDeadPlants({ ...state, gameTime, plants }, () => 'neglect');
+  return advanceLab(removeDeadPlants(advancePests(survivors), plant => plant.infection?.pest ?? 'neglect'));
+};
+
+const runTicks = (state: GameState, ticks: number): GameState => {
+  let next = state;
+  for (let i = 0; i < ticks; i++) next = tick(next);
+  return next;
+};
+
+// Fast-forward through the same ticks, so nothing that happens during the skipped time is lost.
+// Plants that run dry meanwhile stop growing and slowly lose health; waking up lists the ones still wilting.
+const sleep = (state: GameState, hours: number): GameState => {
+  const next = runTicks(state, Math.round(hours * HOUR_MS / TICK_MS));
+  const wilting = next.plants.filter(isWilting);
+  if (wilting.length === 0) return next;
+  return {
+    ...next,
+    notifications: [...next.notifications, {
+      id: `wake-${next.gameTime}`,
+      message: `⏰ Пока вы спали, завяли без воды: ${wilting.map(plant => plant.name).join(', ')}`,
+      createdAt: next.gameTime
+    }]
+  };
+};
+
+const removeOneSeed = (seeds: SeedItem[], seedIds: string[]): SeedItem[] =>
+  seeds
+    .map(seed => seedIds.includes(seed.id) ? { ...seed, quantity: seed.quantity - 1 } : seed)
+    .filter(seed => seed.quantity > 0);
+
+// Crossbreed two seeds to create a new unknown strain
+const crossbreedSeeds = (state: GameState, seed1Id: string, seed2Id: string): GameState => {
+  const parent1 = state.seeds.find(s => s.id === seed1Id);
+  const parent2 = state.seeds.find(s => s.id === seed2Id);
+  if (!parent1 || !parent2 || seed1Id === seed2Id || parent1.quantity < 1 || parent2.quantity < 1) return state;
+
+  const rng = createRng(state.rng.state);
+  const ids = createIdGenerator(state.nextId);
+  const { genetics: hybridGenetics, mutations } = crossGenetics(parent1.genetics, parent2.genetics, rng);
+  const record: StrainRecord = {
+    strainId: ids.next('strain'),
+    name: generateHybridName(parent1.name, parent2.name),
+    genetics: hybridGenetics,
+    parentIds: [parent1.lineage.strainId, parent2.lineage.strainId],
+    knowledge: 'none',
+    ...getHybridGeneration(state.pedigree, state.pedigree[parent1.lineage.strainId], state.pedigree[parent2.lineage.strainId]),
+    createdAt: state.gameTime
+  };
+  const newSeed: SeedItem = {
+    id: ids.next('seed'),
+    name: record.name,
+    quantity: 1,
+    genetics: hybridGenetics,
+    traits: calculateTraits(hybridGenetics, rng),
+    knowledge: 'none', // Player doesn't know the genetics!
+    estimates: null,
+    lineage: toLineage(record),
+    createdAt: state.gameTime
+  };
+
+  const event = { at: state.gameTime, strainId: record.strainId, name: record.name, seedId: newSeed.id };
+  return logEvents({
+    ...state,
+    seeds: [...removeOneSeed(state.seeds, [seed1Id, seed2Id]), newSeed],
+    pedigree: { ...state.pedigree, [record.strainId]: record },
+    rng: { ...state.rng, state: rng.state },
+    nextId: ids.state,
+    gameStats: {
+      ...state.gameStats,
+      crossbreedingAttempts: state.gameStats.crossbreedingAttempts + 1,
+      experimentsCount: state.gameStats.experimentsCount + 1
+    }
+  },
+  { ...event, type: 'cross', parentIds: record.parentIds },
+  ...mutations.map(mutation => ({ ...event, type: 'mutation' as const, ...mutation })));
+};
+
+const buySeed = (state: GameState, strainName: string): GameState => {
+  const strain = storeStrains.find(s => s.name === strainName);
+  if (!strain || state.gameStats.money < strain.price) return state;
+
+  const record: StrainRecord = state.pedigree[strain.id] ?? {
+    strainId: strain.id,
+    name: strain.name,
+    genetics: strain.genetics,
+    parentIds: [],
+    knowledge: 'genotype',
+    generation: 'P',
+    origin: 'store',
+    createdAt: state.gameTime
+  };
+  const ids = createIdGenerator(state.nextId);
+  const existing = state.seeds.find(s => s.lineage.strainId === strain.id && s.knowledge === 'genotype');
+  const seedId = existing?.id ?? ids.next('seed');
+  const seeds: SeedItem[] = existing
+    ? state.seeds.map(s => s.id === existing.id ? { ...s, quantity: s.quantity + 1 } : s)
+    : [...state.seeds, {
+        id: seedId,
+        name: strain.name,
+        quantity: 1,
+        genetics: strain.genetics,
+        traits: strain.traits,
+        knowledge: 'genotype', // Store seeds have known genetics
+        estimates: null,
+        lineage: toLineage(record),
+        createdAt: state.gameTime
+      }];
+
+  return logEvents({
+    ...state,
+    seeds,
+    nextId: ids.state,
+    pedigree: { ...state.pedigree, [strain.id]: record },
+    gameStats: { ...state.gameStats, money: state.gameStats.money - strain.price }
+  }, { type: 'buy', at: state.gameTime, strainId: strain.id, name: strain.name, seedId, price: strain.price });
+};
+
+const plantSeed = (state: GameState, seedId: string, roomId: string): GameState => {
+  const seed = state.seeds.find(s => s.id === seedId);
+  if (!seed || seed.quantity < 1 || getFreePots(state, roomId) < 1) return state;
+
+  const ids = createIdGenerator(state.nextId);
+  const newPlant: Plant = {
+    id: ids.next('plant'),
+    roomId,
+    name: seed.name,
+    stage: 'seed',
+    progress: 0,
+    stress: 0,
+    water: 100,
+    nutrients: FRESH_NUTRIENTS,
+    health: 100,
+    infection: null,
+    genetics: seed.genetics,
+    traits: seed.traits,
+    lineage: seed.lineage,
+    plantedAt: state.gameTime
+  };
+
+  return logEvents({
+    ...state,
+    plants: [...state.plants, newPlant],
+    seeds: removeOneSeed(state.seeds, [seedId]),
+    nextId: ids.state
+  }, { type: 'plant', at: state.gameTime, strainId: seed.lineage.strainId, name: seed.name, plantId: newPlant.id });
+};
+
+// The harvest goes onto a drying rack; it reaches the inventory once dried (and cured) and packed
+const harvestPlant = (state: GameState, plantId: string): GameState => {
+  const plant = state.plants.find(p => p.id === plantId);
+  if (!plant || plant.stage !== 'harvest' || getFreeRacks(state) < 1) return state;
+
+  const ids = createIdGenerator(state.nextId);
+  const quantity = getHarvestYield(plant);
+  const batch: HarvestBatch = {
+    id: ids.next('batch'),
+    name: plant.name,
+    quantity,
+    genetics: plant.genetics,
+    traits: plant.traits,
+    lineage: plant.lineage,
+    harvestedAt: state.gameTime,
+    quality: getHarvestQuality(plant),
+    stage: 'drying',
+    stageStartedAt: state.gameTime
+  };
+
+  return logEvents({
+    ...state,
+    batches: [...state.batches, batch],
+    plants: state.plants.filter(p => p.id !== plantId),
+    nextId: ids.state,
+    gameStats: {
+      ...state.gameStats,
+      totalHarvested: state.gameStats.totalHarvested + 1,
+      bestYield: Math.max(state.gameStats.bestYield, plant.traits.yield),
+      bestPotency: Math.max(state.gameStats.bestPotency, plant.traits.potency)
+    }
+  }, { type: 'harvest', at: state.gameTime, strainId: plant.lineage.strainId, name: plant.name, batchId: batch.id, quantity });
+};
+
+// Buds sitting in the lab can't be sold or converted until the job finishes or is cancelled
+const sellBuds = (state: GameState, itemId: string): GameState => {
+  const item = state.buds.find(i => i.id === itemId);
+  if (!item || getBudJob(state, itemId)) return state;
+
+  const income = getBudPrice(item) * item.quantity;
+  return logEvents({
+    ...state,
+    buds: state.buds.filter(i => i.id !== itemId),
+    gameStats: { ...state.gameStats, money: state.gameStats.money + income }
+  }, { type: 'sell', at: state.gameTime, strainId: item.lineage.strainId, name: item.name, quantity: item.quantity, income });
+};
+
+const convertBudsToSeeds = (state: GameState, itemId: string): GameState => {
+  const item = state.buds.find(i => i.id === itemId);
+  if (!item || getBudJob(state, itemId) || state.gameStats.money < SEED_CONVERSION_COST) return state;
+
+  const ids = createIdGenerator(state.nextId);
+  const newSeed: SeedItem = {
+    id: ids.next('seed'),
+    name: `${item.name} (семена)`,
+    quantity: Math.floor(item.quantity / 2), // Seeds are fewer than harvest
+    genetics: item.genetics,
+    traits: item.traits,
+    knowledge: item.knowledge,
+    estimates: item.estimates,
+    lineage: item.lineage,
+    createdAt: state.gameTime
+  };
+
+  return logEvents({
+    ...state,
+    seeds: [...state.seeds, newSeed],
+    buds: state.buds.filter(i => i.id !== itemId),
+    nextId: ids.state,
+    gameStats: { ...state.gameStats, money: state.gameStats.money - SEED_CONVERSION_COST }
+  }, { type: 'convert', at: state.gameTime, strainId: item.lineage.strainId, name: item.name, seedId: newSeed.id, quantity: newSeed.quantity });
+};
+
+// Single entry point for every rule change; returns the same state when an action is not allowed
+export const gameReducer = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'tick': return runTicks(state, action.ticks ?? 1);
+    case 'sleep': return sleep(state, action.hours);
+    case 'buySeed': return buySeed(state, action.strainName);
+    case 'plantSeed': return plantSeed(state, action.seedId, action.roomId);
+    case 'buyRoom': return buyRoom(state);
+    case 'buyPot': return buyPot(state, action.roomId);
+    case 'setEnvironment': return setEnvironment(state, action.roomId, action.factor, action.value);
+    case 'buySupply': return buySupply(state, action.supply);
+    case 'applySupply': return applySupply(state, action.plantId, action.supply);
+    case 'treatPlant': return treatPlant(state, action.plantId);
+    case 'harvestPlant': return harvestPlant(state, action.plantId);
+    case 'jarBatch': return jarBatch(state, action.batchId);
+    case 'packBatch': return packBatch(state, action.batchId);
+    case 'sellBuds': return sellBuds(state, action.itemId);
+    case 'convertBudsToSeeds': return convertBudsToSeeds(state, action.itemId);
+    case 'researchBuds': return queueResearch(state, action.itemId, action.labType);
+    case 'cancelLabJob': return cancelJob(state, action.jobId);
+    case 'dismissNotifications':
+      return { ...state, notifications: state.notifications.filter(n => !action.ids.includes(n.id)) };
+    case 'crossbreedSeeds': return crossbreedSeeds(state, action.seed1Id, action.seed2Id);
+    case 'setOfflineCap':
+      return { ...state, settings: { ...state.settings, offlineCapHours: Math.max(0, action.hours) } };
+    case 'load': return action.state;
+    default: return state;
+  }
+};
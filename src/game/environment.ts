@@ -0,0 +1,79 @@
+import { getDosage } from './genetics';
+import { TRAITS, type TraitId } from './traits';
+import type { PlantGenetics, RoomEnvironment } from './types';
+
+// Grow room climate. Each strain has an optimal band per factor, derived from its genotype; the further
+// a room is outside the band, the more the plant is stressed, which slows growth and costs yield.
+export type EnvironmentFactor = keyof RoomEnvironment;
+
+export interface EnvironmentFactorDefinition {
+  label: string;
+  icon: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  tolerance: number; // Distance outside the optimum at which stress is full
+}
+
+export const ENVIRONMENT_FACTORS: Record<EnvironmentFactor, EnvironmentFactorDefinition> = {
+  light: { label: 'Свет', icon: '💡', unit: '%', min: 0, max: 100, step: 5, tolerance: 30 },
+  photoperiod: { label: 'Световой день', icon: '🕒', unit: 'ч', min: 8, max: 24, step: 1, tolerance: 6 },
+  temperature: { label: 'Температура', icon: '🌡️', unit: '°C', min: 10, max: 40, step: 1, tolerance: 8 },
+  humidity: { label: 'Влажность', icon: '💧', unit: '%', min: 20, max: 90, step: 5, tolerance: 25 }
+};
+
+export const DEFAULT_ENVIRONMENT: RoomEnvironment = { light: 70, photoperiod: 18, temperature: 24, humidity: 55 };
+
+export const STRESS_GROWTH_PENALTY = 0.6; // Growth speed lost at full stress
+export const STRESS_YIELD_PENALTY = 0.5; // Harvest lost at full lifetime stress
+
+export interface EnvironmentRange {
+  min: number;
+  max: number;
+}
+
+export type OptimalEnvironment = Record<EnvironmentFactor, EnvironmentRange>;
+
+const dosage = (traitId: TraitId, genetics: PlantGenetics) =>
+  getDosage(TRAITS.find(trait => trait.id === traitId)!, genetics);
+
+// High-yield lines want more light, fast lines longer days and warmth, potent lines drier air
+export const getOptimalEnvironment = (genetics: PlantGenetics): OptimalEnvironment => {
+  const yieldDose = dosage('yield', genetics);
+  const speedDose = dosage('speed', genetics);
+  const potencyDose = dosage('potency', genetics);
+  return {
+    light: { min: 50 + 10 * yieldDose, max: 80 + 10 * yieldDose },
+    photoperiod: { min: 14 + speedDose, max: 18 + 2 * speedDose },
+    temperature: { min: 20 + speedDose, max: 26 + speedDose },
+    humidity: { min: 50 - 5 * potencyDose, max: 65 - 5 * potencyDose }
+  };
+};
+
+// 0 inside the optimum, rising to 1 at the factor's tolerance outside it
+export const getFactorStress = (factor: EnvironmentFactor, value: number, range: EnvironmentRange): number => {
+  const distance = Math.max(range.min - value, value - range.max, 0);
+  return Math.min(1, distance / ENVIRONMENT_FACTORS[factor].tolerance);
+};
+
+// Overall stress 0..1: the average over factors
+export const getEnvironmentStress = (environment: RoomEnvironment, genetics: PlantGenetics): number => {
+  const optimum = getOptimalEnvironment(genetics);
+  const factors = Object.keys(ENVIRONMENT_FACTORS) as EnvironmentFactor[];
+  return factors.reduce((sum, factor) => sum + getFactorStress(factor, environment[factor], optimum[factor]), 0) / factors.length;
+};
+
+// Band every plant in the room is happy with, or null when their optima don't overlap
+export const getSharedOptimum = (genomes: PlantGenetics[], factor: EnvironmentFactor): EnvironmentRange | null => {
+  if (genomes.length === 0) return null;
+  const ranges = genomes.map(genetics => getOptimalEnvironment(genetics)[factor]);
+  const min = Math.max(...ranges.map(range => range.min));
+  const max = Math.min(...ranges.map(range => range.max));
+  return min <= max ? { min, max } : null;
+};
+
+export const clampEnvironment = (factor: EnvironmentFactor, value: number): number => {
+  const { min, max } = ENVIRONMENT_FACTORS[factor];
+  return Math.min(max, Math.max(min, value));
+};
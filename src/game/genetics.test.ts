@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { calculateTraits, crossGenetics, getPossibleGenotypes, getTraitRange } from './genetics';
+import { createRng, type Rng } from './random';
+import { TRAITS, type DominanceRule, type TraitDefinition } from './traits';
+import type { PlantGenetics } from './types';
+
+const genome = (genetics: Partial<PlantGenetics> = {}): PlantGenetics =>
+  ({ A: 'aa', B: 'bb', C: 'cc', R: 'rr', ...genetics });
+
+const trait = (dominance: DominanceRule, loci: string[] = ['A']): TraitDefinition =>
+  ({ id: 'test', label: 'Test', icon: '', loci, dominance, range: [2, 10] });
+
+// Always passes on each parent's first allele; mutations and their picks are up to the test
+const scriptedRng = ({ mutate = false, pick = 0 } = {}): Rng => ({
+  next: () => 0,
+  int: () => 0,
+  chance: () => mutate,
+  pick: items => items[pick],
+  state: 0
+});
+
+describe('getTraitRange', () => {
+  it('splits the range into one bracket per dosage for incomplete dominance', () => {
+    expect(getTraitRange(trait('incomplete'), genome({ A: 'aa' }))).toEqual([2, 4]);
+    expect(getTraitRange(trait('incomplete'), genome({ A: 'Aa' }))).toEqual([5, 7]);
+    expect(getTraitRange(trait('incomplete'), genome({ A: 'AA' }))).toEqual([8, 10]);
+  });
+
+  it('lets one dominant allele express fully for complete dominance', () => {
+    expect(getTraitRange(trait('complete'), genome({ A: 'Aa' }))).toEqual(getTraitRange(trait('complete'), genome({ A: 'AA' })));
+    expect(getTraitRange(trait('complete'), genome({ A: 'aa' }))).toEqual([2, 4]);
+  });
+
+  it('spans both homozygous phenotypes for a heterozygous codominant locus', () => {
+    expect(getTraitRange(trait('codominant'), genome({ A: 'Aa' }))).toEqual([3, 9]);
+    expect(getTraitRange(trait('codominant'), genome({ A: 'AA' }))).toEqual([8, 10]);
+  });
+
+  it('adds dominant alleles over all loci for polygenic traits', () => {
+    const polygenic = trait('polygenic', ['A', 'B']);
+    expect(getTraitRange(polygenic, genome({ A: 'aa', B: 'bb' }))).toEqual([2, 3]);
+    expect(getTraitRange(polygenic, genome({ A: 'Aa', B: 'bb' }))).toEqual([3, 5]);
+    expect(getTraitRange(polygenic, genome({ A: 'AA', B: 'BB' }))).toEqual([9, 10]);
+  });
+});
+
+describe('getPossibleGenotypes', () => {
+  it('lists each child genotype once, dominant allele first', () => {
+    expect(getPossibleGenotypes('Aa', 'Aa')).toEqual(['AA', 'Aa', 'aa']);
+    expect(getPossibleGenotypes('AA', 'aa')).toEqual(['Aa']);
+  });
+});
+
+describe('crossGenetics', () => {
+  it('takes one allele per locus from each parent', () => {
+    const { genetics, mutations } = crossGenetics(genome({ A: 'AA', R: 'Rr' }), genome({ C: 'Cc' }), scriptedRng());
+    expect(genetics).toEqual(genome({ A: 'Aa', C: 'Cc', R: 'Rr' }));
+    expect(mutations).toEqual([]);
+  });
+
+  it('only gives genotypes the parents can pass on when nothing mutates', () => {
+    const parent1 = genome({ A: 'Aa', B: 'BB', C: 'Cc', R: 'Rr' });
+    const parent2 = genome({ A: 'Aa', B: 'bb', C: 'cc', R: 'Rr' });
+    const rng = createRng(42);
+    for (let i = 0; i < 200; i++) {
+      const { genetics, mutations } = crossGenetics(parent1, parent2, rng);
+      for (const locus of ['A', 'B', 'C', 'R'] as const) {
+        if (mutations.some(mutation => mutation.locus === locus)) continue;
+        expect(getPossibleGenotypes<string>(parent1[locus], parent2[locus])).toContain(genetics[locus]);
+      }
+    }
+  });
+
+  it('reports mutations that change a genotype, and only those', () => {
+    const changed = crossGenetics(genome({ A: 'AA' }), genome({ A: 'AA' }), scriptedRng({ mutate: true, pick: 2 }));
+    expect(changed.genetics.A).toBe('aa');
+    expect(changed.mutations).toContainEqual({ locus: 'A', from: 'AA', to: 'aa' });
+    expect(changed.mutations.some(mutation => mutation.locus === 'B')).toBe(false);
+  });
+});
+
+describe('calculateTraits', () => {
+  it('rolls every registered trait inside the range its genotype allows', () => {
+    const genetics = genome({ A: 'Aa', B: 'BB', R: 'Rr' });
+    const rng = createRng(7);
+    for (let i = 0; i < 50; i++) {
+      const traits = calculateTraits(genetics, rng);
+      expect(Object.keys(traits)).toEqual(TRAITS.map(trait => trait.id));
+      for (const definition of TRAITS) {
+        const [low, high] = getTraitRange(definition, genetics);
+        expect(traits[definition.id]).toBeGreaterThanOrEqual(low);
+        expect(traits[definition.id]).toBeLessThanOrEqual(high);
+      }
+    }
+  });
+});
@@ -0,0 +1,153 @@
+import type { Rng } from './random';
+import { LOCI, TRAITS, type Locus, type TraitDefinition } from './traits';
+import type { Genotype, PlantGenetics, PlantTraits } from './types';
+
+export const MUTATION_RATE = 0.1; // Chance per locus that a hybrid's genotype is rerolled
+
+export class GenotypeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GenotypeError';
+  }
+}
+
+// All valid genotypes of a locus: ['AA', 'Aa', 'aa']
+export const genotypesFor = <L extends string>(locus: L): Genotype<L>[] => {
+  const dominant = locus.toUpperCase();
+  const recessive = locus.toLowerCase();
+  return [dominant + dominant, dominant + recessive, recessive + recessive] as Genotype<L>[];
+};
+
+export const isGenotype = <L extends string>(locus: L, value: unknown): value is Genotype<L> =>
+  typeof value === 'string' && (genotypesFor(locus) as string[]).includes(value);
+
+export const parseGenotype = <L extends string>(locus: L, value: unknown): Genotype<L> => {
+  if (!isGenotype(locus, value)) {
+    throw new GenotypeError(`Invalid genotype ${JSON.stringify(value)} for locus ${locus}, expected one of ${genotypesFor(locus).join('/')}`);
+  }
+  return value;
+};
+
+// Validate untrusted genetics (catalog entries, saves) instead of letting them fall into the lowest bracket
+export const parseGenetics = (value: unknown): PlantGenetics => {
+  if (typeof value !== 'object' || value === null) {
+    throw new GenotypeError(`Invalid genetics ${JSON.stringify(value)}`);
+  }
+  const raw = value as Record<string, unknown>;
+  return Object.fromEntries(LOCI.map(locus => [locus, parseGenotype(locus, raw[locus])])) as PlantGenetics;
+};
+
+// Number of dominant alleles in a genotype (0-2)
+export const countDominant = (genotype: string): number =>
+  [...genotype].filter(allele => allele !== allele.toLowerCase()).length;
+
+// Dominant allele count over all loci of a trait (0 to 2 × loci)
+export const getDosage = (trait: TraitDefinition, genetics: PlantGenetics): number =>
+  trait.loci.reduce((sum, locus) => sum + countDominant(genetics[locus as Locus]), 0);
+
+// Generate hybrid name from parent names
+export const generateHybridName = (parent1: string, parent2: string): string => {
+  const words1 = parent1.toLowerCase().split(' ');
+  const words2 = parent2.toLowerCase().split(' ');
+
+  // Take first word from parent1 and last word from parent2
+  const firstPart = words1[0];
+  const secondPart = words2[words2.length - 1];
+
+  // Capitalize first letters
+  return `${firstPart.charAt(0).toUpperCase() + firstPart.slice(1)} ${secondPart.charAt(0).toUpperCase() + secondPart.slice(1)}`;
+};
+
+// Phenotype bracket for a dosage when the trait's range is split into one bracket per possible dosage
+const getBracket = (trait: TraitDefinition, dosage: number): [number, number] => {
+  const [min, max] = trait.range;
+  const bracketSize = (max - min + 1) / (trait.loci.length * 2 + 1);
+  return [min + Math.round(dosage * bracketSize), min + Math.round((dosage + 1) * bracketSize) - 1];
+};
+
+const getBracketMiddle = (trait: TraitDefinition, dosage: number): number => {
+  const [low, high] = getBracket(trait, dosage);
+  return Math.round((low + high) / 2);
+};
+
+// Get trait range from genetics according to the trait's dominance rule
+export const getTraitRange = (trait: TraitDefinition, genetics: PlantGenetics): [number, number] => {
+  const [min, max] = trait.range;
+  const genotypes = trait.loci.map(locus => genetics[locus as Locus]);
+  const dosage = getDosage(trait, genetics);
+
+  switch (trait.dominance) {
+    case 'complete': {
+      const expressed = genotypes.reduce((sum, genotype) => sum + (countDominant(genotype) > 0 ? 2 : 0), 0);
+      return getBracket(trait, expressed);
+    }
+    case 'codominant': {
+      const heterozygous = genotypes.filter(genotype => countDominant(genotype) === 1).length;
+      if (heterozygous === 0) return getBracket(trait, dosage);
+      return [getBracketMiddle(trait, dosage - heterozygous), getBracketMiddle(trait, dosage + heterozygous)];
+    }
+    case 'polygenic': {
+      const step = (max - min) / (trait.loci.length * 2);
+      const center = min + dosage * step;
+      return [Math.max(min, Math.round(center - step / 2)), Math.min(max, Math.round(center + step / 2))];
+    }
+    default:
+      return getBracket(trait, dosage);
+  }
+};
+
+// Child genotypes a locus can get from two parents, without mutations
+export const getPossibleGenotypes = <G extends string>(parent1: G, parent2: G): G[] =>
+  [...new Set([...parent1].flatMap(a1 => [...parent2].map(a2 => normalizeGenotype<G>(a1 + a2))))];
+
+// Offspring trait range over every genotype combination the parents can pass on
+export const getOffspringRange = (trait: TraitDefinition, parent1: PlantGenetics, parent2: PlantGenetics): [number, number] => {
+  const genomes = trait.loci.reduce<PlantGenetics[]>((partial, locus) =>
+    partial.flatMap(genome => getPossibleGenotypes<string>(parent1[locus as Locus], parent2[locus as Locus])
+      .map(genotype => ({ ...genome, [locus]: genotype }))),
+    [parent1]
+  );
+  const ranges = genomes.map(genome => getTraitRange(trait, genome));
+  return [Math.min(...ranges.map(([low]) => low)), Math.max(...ranges.map(([, high]) => high))];
+};
+
+// Calculate traits from genetics
+export const calculateTraits = (genetics: PlantGenetics, rng: Rng): PlantTraits =>
+  Object.fromEntries(TRAITS.map(trait => {
+    const [min, max] = getTraitRange(trait, genetics);
+    return [trait.id, min + rng.int(max - min + 1)];
+  })) as PlantTraits;
+
+// Dominant (uppercase) allele first, so 'aA' and 'Aa' are the same genotype
+export const normalizeGenotype = <G extends string>(genotype: string): G =>
+  [...genotype].sort((a, b) => Number(a === a.toLowerCase()) - Number(b === b.toLowerCase())).join('') as G;
+
+// Meiosis: each parent passes on one of its two alleles at random
+export const inheritGenotype = <G extends string>(parent1: G, parent2: G, rng: Rng): G =>
+  normalizeGenotype<G>(parent1.charAt(rng.int(2)) + parent2.charAt(rng.int(2)));
+
+// Locus whose inherited genotype was replaced by a mutation
+export interface Mutation {
+  locus: Locus;
+  from: string;
+  to: string;
+}
+
+// Hybrid genetics: one allele per locus from each parent, with a mutation chance per locus. A mutation
+// that rerolls the genotype it replaced is not reported.
+export const crossGenetics = (parent1: PlantGenetics, parent2: PlantGenetics, rng: Rng): { genetics: PlantGenetics; mutations: Mutation[] } => {
+  const hybridGenetics = Object.fromEntries(LOCI.map(locus =>
+    [locus, inheritGenotype<string>(parent1[locus], parent2[locus], rng)]
+  )) as Record<Locus, string>;
+  const mutations: Mutation[] = [];
+
+  for (const locus of LOCI) {
+    if (rng.chance(MUTATION_RATE)) {
+      const from = hybridGenetics[locus];
+      hybridGenetics[locus] = rng.pick(genotypesFor(locus));
+      if (hybridGenetics[locus] !== from) mutations.push({ locus, from, to: hybridGenetics[locus] });
+    }
+  }
+
+  return { genetics: hybridGenetics as PlantGenetics, mutations };
+};
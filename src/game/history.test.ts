@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState, TICK_MS } from './engine';
+import { createHistory, historyReducer, HISTORY_LIMIT, type GameHistory, type HistoryAction } from './history';
+import { storeStrains } from './strains';
+
+const [ogKush] = storeStrains;
+
+const play = (history: GameHistory, ...actions: HistoryAction[]) => actions.reduce(historyReducer, history);
+
+// A farm that bought one OG Kush seed and planted it
+const plantedHistory = () => {
+  const bought = play(createHistory(createInitialState(0, 'TEST')), { type: 'buySeed', strainName: ogKush.name });
+  const { seeds, rooms } = bought.present;
+  return play(bought, { type: 'plantSeed', seedId: seeds[0].id, roomId: rooms[0].id });
+};
+
+describe('historyReducer', () => {
+  it('records player actions with a label, but not ticks or settings', () => {
+    const history = play(plantedHistory(), { type: 'tick', ticks: 10 }, { type: 'setOfflineCap', hours: 4 });
+    expect(history.past.map(entry => entry.label)).toEqual([`Покупка: ${ogKush.name}`, `Посадка: ${ogKush.name}`]);
+    expect(history.present.settings.offlineCapHours).toBe(4);
+  });
+
+  it('undoes an action and replays the time that has passed since', () => {
+    const planted = plantedHistory();
+    const grown = play(planted, { type: 'tick', ticks: 10 }, { type: 'setOfflineCap', hours: 4 });
+    const history = play(grown, { type: 'undo' });
+    expect(history.present.plants).toEqual([]);
+    expect(history.present.seeds).toHaveLength(1);
+    expect(history.present.gameTime).toBe(grown.present.gameTime);
+    expect(history.present.settings.offlineCapHours).toBe(4);
+    expect(history.future.map(entry => entry.action.type)).toEqual(['plantSeed']);
+  });
+
+  it('rolls back several steps at once and redoes them in order', () => {
+    const planted = plantedHistory();
+    const undone = play(planted, { type: 'undo', steps: 2 });
+    expect(undone.past).toEqual([]);
+    expect(undone.present.gameStats.money).toBe(1000);
+    expect(undone.future.map(entry => entry.action.type)).toEqual(['plantSeed', 'buySeed']);
+
+    const redone = play(undone, { type: 'redo' }, { type: 'redo' });
+    expect(redone.present.plants).toHaveLength(1);
+    expect(redone.past.map(entry => entry.action.type)).toEqual(['buySeed', 'plantSeed']);
+    expect(redone.future).toEqual([]);
+  });
+
+  it('redoes on the current state, after the time that passed', () => {
+    const undone = play(plantedHistory(), { type: 'undo' }, { type: 'tick', ticks: 10 });
+    const history = play(undone, { type: 'redo' });
+    expect(history.present.gameTime).toBe(10 * TICK_MS);
+    expect(history.present.plants[0].plantedAt).toBe(10 * TICK_MS);
+    expect(history.past[history.past.length - 1].before).toBe(undone.present);
+  });
+
+  it('drops a redo that no longer applies', () => {
+    const undone = play(plantedHistory(), { type: 'undo' });
+    // The seed is sold off behind the history's back, so there is nothing left to plant
+    const emptied = { ...undone, present: { ...undone.present, seeds: [] } };
+    const history = play(emptied, { type: 'redo' });
+    expect(history.present).toBe(emptied.present);
+    expect(history.future).toEqual([]);
+  });
+
+  it('clears the redo list on a new action', () => {
+    const undone = play(plantedHistory(), { type: 'undo' });
+    expect(play(undone, { type: 'buySeed', strainName: ogKush.name }).future).toEqual([]);
+  });
+
+  it('keeps each climate change as its own step', () => {
+    const farm = createHistory(createInitialState(0, 'TEST'));
+    const roomId = farm.present.rooms[0].id;
+    const history = play(farm,
+      { type: 'setEnvironment', roomId, factor: 'temperature', value: 20 },
+      { type: 'tick', ticks: 10 },
+      { type: 'setEnvironment', roomId, factor: 'temperature', value: 30 });
+    expect(history.past.map(entry => entry.label)).toEqual(['Температура: 20°C (Комната 1)', 'Температура: 30°C (Комната 1)']);
+    expect(play(history, { type: 'undo' }).present.rooms[0].environment.temperature).toBe(20);
+  });
+
+  it(`keeps the last ${HISTORY_LIMIT} actions`, () => {
+    const farm = createHistory(createInitialState(0, 'TEST'));
+    const roomId = farm.present.rooms[0].id;
+    const actions: HistoryAction[] = Array.from({ length: HISTORY_LIMIT + 5 }, (_, i) =>
+      ({ type: 'setEnvironment', roomId, factor: 'light', value: i % 2 === 0 ? 50 : 60 }));
+    const history = play(farm, ...actions);
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+  });
+});
@@ -0,0 +1,111 @@
+import { SUPPLIES } from './care';
+import { gameReducer, TICK_MS, type GameAction } from './engine';
+import { ENVIRONMENT_FACTORS } from './environment';
+import { LAB_NAMES } from './lab';
+import type { GameState } from './types';
+
+// Undo/redo for player actions. Only the state before each action is kept; undo restores it and
+// replays the ticks since, so time keeps running and nothing that happened meanwhile is skipped.
+// History lives next to the game state, not in the save.
+export const HISTORY_LIMIT = 30;
+
+export interface HistoryEntry {
+  label: string;
+  action: GameAction;
+  before: GameState;
+}
+
+export interface GameHistory {
+  present: GameState;
+  past: HistoryEntry[]; // Oldest first
+  future: HistoryEntry[]; // Next redo last
+}
+
+export type HistoryAction =
+  | GameAction
+  | { type: 'undo'; steps?: number }
+  | { type: 'redo' };
+
+type Describe<T extends GameAction['type']> = (action: Extract<GameAction, { type: T }>, state: GameState) => string;
+
+const nameOf = (items: { id: string; name: string }[], id: string) => items.find(item => item.id === id)?.name ?? '?';
+
+// Undoable actions and how they read in the history list; everything else (ticks, sleep, settings) is not recorded
+const UNDOABLE: { [T in GameAction['type']]?: Describe<T> } = {
+  buySeed: action => `Покупка: ${action.strainName}`,
+  plantSeed: (action, state) => `Посадка: ${nameOf(state.seeds, action.seedId)}`,
+  buyRoom: () => 'Покупка комнаты',
+  buyPot: (action, state) => `Горшок: ${nameOf(state.rooms, action.roomId)}`,
+  setEnvironment: (action, state) => {
+    const { label, unit } = ENVIRONMENT_FACTORS[action.factor];
+    return `${label}: ${action.value}${unit} (${nameOf(state.rooms, action.roomId)})`;
+  },
+  buySupply: action => `Покупка: ${SUPPLIES[action.supply].label}`,
+  treatPlant: (action, state) => `Лечение: ${nameOf(state.plants, action.plantId)}`,
+  applySupply: (action, state) => `${SUPPLIES[action.supply].icon} Уход: ${nameOf(state.plants, action.plantId)}`,
+  harvestPlant: (action, state) => `Сбор: ${nameOf(state.plants, action.plantId)}`,
+  jarBatch: (action, state) => `В банку: ${nameOf(state.batches, action.batchId)}`,
+  packBatch: (action, state) => `Упаковка: ${nameOf(state.batches, action.batchId)}`,
+  sellBuds: (action, state) => `Продажа: ${nameOf(state.buds, action.itemId)}`,
+  convertBudsToSeeds: (action, state) => `Семена из: ${nameOf(state.buds, action.itemId)}`,
+  crossbreedSeeds: (action, state) =>
+    `Скрещивание: ${nameOf(state.seeds, action.seed1Id)} × ${nameOf(state.seeds, action.seed2Id)}`,
+  researchBuds: (action, state) => `${LAB_NAMES[action.labType]} анализ: ${nameOf(state.buds, action.itemId)}`,
+  cancelLabJob: (action, state) => {
+    const job = state.labJobs.find(j => j.id === action.jobId);
+    return `Отмена анализа: ${job ? nameOf(state.buds, job.budId) : '?'}`;
+  }
+};
+
+const describe = (action: GameAction, state: GameState): string | null => {
+  const label = UNDOABLE[action.type] as Describe<typeof action.type> | undefined;
+  return label ? label(action as never, state) : null;
+};
+
+export const createHistory = (present: GameState): GameHistory => ({ present, past: [], future: [] });
+
+const undo = (history: GameHistory, steps: number): GameHistory => {
+  const count = Math.min(steps, history.past.length);
+  if (count === 0) return history;
+  const undone = history.past.slice(-count);
+  const { before } = undone[0];
+  const replayed = gameReducer(before, { type: 'tick', ticks: Math.round((history.present.gameTime - before.gameTime) / TICK_MS) });
+  return {
+    // Settings aren't history; pending messages were already produced by the replayed time
+    present: { ...replayed, settings: history.present.settings, notifications: history.present.notifications },
+    past: history.past.slice(0, -count),
+    future: [...history.future, ...undone.reverse()]
+  };
+};
+
+// Redo repeats the action on the current state; if it no longer applies it is dropped
+const redo = (history: GameHistory): GameHistory => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return history;
+  const future = history.future.slice(0, -1);
+  const present = gameReducer(history.present, entry.action);
+  if (present === history.present) return { ...history, future };
+  return {
+    present,
+    past: [...history.past, { ...entry, before: history.present }].slice(-HISTORY_LIMIT),
+    future
+  };
+};
+
+export const historyReducer = (history: GameHistory, action: HistoryAction): GameHistory => {
+  switch (action.type) {
+    case 'undo': return undo(history, action.steps ?? 1);
+    case 'redo': return redo(history);
+    case 'load': return createHistory(action.state);
+  }
+
+  const present = gameReducer(history.present, action);
+  if (present === history.present) return history;
+  const label = describe(action, history.present);
+  if (!label) return { ...history, present };
+  return {
+    present,
+    past: [...history.past, { label, action, before: history.present }].slice(-HISTORY_LIMIT),
+    future: []
+  };
+};
@@ -0,0 +1,17 @@
+// Entity ids from a monotonic counter kept in the save, so ids never collide however fast actions
+// arrive and the same actions on the same seed give the same ids
+
+export interface IdGenerator {
+  next: (prefix: string) => string;
+  readonly state: number; // Counter to store back as GameState.nextId
+}
+
+export const createIdGenerator = (initialState: number): IdGenerator => {
+  let counter = initialState;
+  return {
+    next: prefix => `${prefix}-${counter++}`,
+    get state() {
+      return counter;
+    }
+  };
+};
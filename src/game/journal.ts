@@ -0,0 +1,62 @@
+import { LAB_NAMES } from './lab';
+import { PESTS } from './pests';
+import type { DeathCause, GameState, JournalEvent, JournalEventType } from './types';
+
+export const JOURNAL_TYPES: Record<JournalEventType, { label: string; icon: string }> = {
+  buy: { label: 'Покупки', icon: '🛒' },
+  plant: { label: 'Посадки', icon: '🌱' },
+  death: { label: 'Гибель', icon: '🥀' },
+  infection: { label: 'Вредители и болезни', icon: '🐛' },
+  harvest: { label: 'Урожай', icon: '🌾' },
+  pack: { label: 'Упаковка', icon: '🫙' },
+  sell: { label: 'Продажи', icon: '💰' },
+  convert: { label: 'Семена из шишек', icon: '🌰' },
+  cross: { label: 'Скрещивания', icon: '🧬' },
+  mutation: { label: 'Мутации', icon: '☢️' },
+  research: { label: 'Исследования', icon: '🔬' }
+};
+
+// One wording for a death wherever it is reported: notification, journal and the offline summary
+export const describeDeath = (name: string, cause: DeathCause): string =>
+  cause === 'neglect' ? `${name} погибло без ухода` : `${name} погибло: ${PESTS[cause].label.toLowerCase()}`;
+
+export const getDeathIcon = (cause: DeathCause): string => cause === 'neglect' ? '🥀' : PESTS[cause].icon;
+
+export const logEvents = (state: GameState, ...events: JournalEvent[]): GameState =>
+  ({ ...state, journal: [...state.journal, ...events] });
+
+export const describeEvent = (event: JournalEvent, pedigree: GameState['pedigree']): string => {
+  switch (event.type) {
+    case 'buy': return `Куплены семена ${event.name} за $${event.price}`;
+    case 'plant': return `Посажено ${event.name}`;
+    case 'death': return describeDeath(event.name, event.cause);
+    case 'infection': return `${PESTS[event.pest].label} ${event.spread ? 'перешла на' : 'у'} ${event.name}`;
+    case 'harvest': return `Собрано ${event.quantity}г ${event.name}`;
+    case 'pack': return `Упаковано ${event.quantity}г ${event.name}, качество ${event.grade}`;
+    case 'sell': return `Продано ${event.quantity}г ${event.name} за $${event.income}`;
+    case 'convert': return `${event.quantity} шт семян из шишек ${event.name}`;
+    case 'cross': return `Скрещены ${event.parentIds.map(id => pedigree[id]?.name ?? '?').join(' × ')}: ${event.name}`;
+    // Which genotype changed is the premium lab's finding, so it shows once the strain's genotype is known
+    case 'mutation': return pedigree[event.strainId]?.knowledge === 'genotype'
+      ? `Мутация у ${event.name}: локус ${event.locus} ${event.from} → ${event.to}`
+      : `Мутация у ${event.name}`;
+    case 'research': return `${LAB_NAMES[event.labType]} лаборатория исследовала ${event.name}`;
+  }
+};
+
+// Inventory item an event points at
+export const getEventTarget = (event: JournalEvent): { kind: 'plant' | 'batch' | 'bud' | 'seed'; id: string } | null => {
+  switch (event.type) {
+    case 'plant':
+    case 'infection': return { kind: 'plant', id: event.plantId };
+    case 'harvest': return event.batchId ? { kind: 'batch', id: event.batchId } : null;
+    case 'pack':
+    case 'research': return { kind: 'bud', id: event.budId };
+    case 'buy':
+    case 'convert':
+    case 'cross':
+    case 'mutation': return { kind: 'seed', id: event.seedId };
+    case 'sell':
+    case 'death': return null;
+  }
+};
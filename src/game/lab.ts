@@ -0,0 +1,154 @@
+import { createIdGenerator } from './ids';
+import { logEvents } from './journal';
+import { createRng, type Rng } from './random';
+import { HOUR_MS } from './time';
+import { TRAITS } from './traits';
+import type { GameState, KnowledgeLevel, LabJob, LabType, PlantTraits, TraitEstimates } from './types';
+
+export const LAB_COSTS: Record<LabType, number> = { cheap: 100, premium: 500 };
+
+// Game time a job takes once it gets a slot
+export const LAB_DURATIONS: Record<LabType, number> = { cheap: 6 * HOUR_MS, premium: 2 * HOUR_MS };
+
+export const LAB_SLOTS = 2;
+
+// Share of the unfinished part of a running job that is refunded on cancel; queued jobs are refunded in full
+export const LAB_CANCEL_REFUND = 0.5;
+
+// Knowledge each lab tier reveals
+export const LAB_KNOWLEDGE: Record<LabType, KnowledgeLevel> = { cheap: 'estimate', premium: 'genotype' };
+
+export const LAB_NAMES: Record<LabType, string> = { cheap: 'Базовая', premium: 'Премиум' };
+
+export const ESTIMATE_MARGIN = 2; // Half-width of the basic lab's confidence interval
+
+export const KNOWLEDGE_RANK: Record<KnowledgeLevel, number> = { none: 0, estimate: 1, genotype: 2 };
+
+export const KNOWLEDGE_LABELS: Record<KnowledgeLevel, string> = {
+  none: 'Не исследовано',
+  estimate: 'Оценка (базовая лаборатория)',
+  genotype: 'Точный генотип'
+};
+
+export const KNOWLEDGE_ICONS: Record<KnowledgeLevel, string> = { none: '❓', estimate: '📊', genotype: '✅' };
+
+export const maxKnowledge = (a: KnowledgeLevel, b: KnowledgeLevel): KnowledgeLevel =>
+  KNOWLEDGE_RANK[a] >= KNOWLEDGE_RANK[b] ? a : b;
+
+// Whether a lab tier would tell the player anything new
+export const canResearch = (knowledge: KnowledgeLevel, labType: LabType): boolean =>
+  KNOWLEDGE_RANK[LAB_KNOWLEDGE[labType]] > KNOWLEDGE_RANK[knowledge];
+
+// Basic lab reading: the true value shifted by up to ±ESTIMATE_MARGIN, reported with an interval that covers it
+export const estimateTraits = (traits: PlantTraits, rng: Rng): TraitEstimates =>
+  Object.fromEntries(TRAITS.map(trait => {
+    const [min, max] = trait.range;
+    const error = rng.int(ESTIMATE_MARGIN + 1) + rng.int(ESTIMATE_MARGIN + 1) - ESTIMATE_MARGIN;
+    const value = Math.min(max, Math.max(min, traits[trait.id] + error));
+    return [trait.id, {
+      value,
+      low: Math.max(min, value - ESTIMATE_MARGIN),
+      high: Math.min(max, value + ESTIMATE_MARGIN)
+    }];
+  })) as TraitEstimates;
+
+// 0-1 share of a job done at the given game time; queued jobs have not started
+export const getJobProgress = (job: LabJob, gameTime: number): number =>
+  job.startedAt === null ? 0 : Math.min(1, Math.max(0, (gameTime - job.startedAt) / job.duration));
+
+export const getCancelRefund = (job: LabJob, gameTime: number): number =>
+  job.startedAt === null
+    ? job.cost
+    : Math.floor(job.cost * LAB_CANCEL_REFUND * (1 - getJobProgress(job, gameTime)));
+
+export const getBudJob = (state: GameState, budId: string): LabJob | undefined =>
+  state.labJobs.find(job => job.budId === budId);
+
+// Apply a finished job's result to its bud and the strain's pedigree record
+const completeJob = (state: GameState, job: LabJob, finishedAt: number): GameState => {
+  const item = state.buds.find(i => i.id === job.budId);
+  const labJobs = state.labJobs.filter(j => j.id !== job.id);
+  if (!item) return { ...state, labJobs };
+
+  const rng = createRng(state.rng.state);
+  const knowledge = maxKnowledge(item.knowledge, LAB_KNOWLEDGE[job.labType]);
+  const estimates = LAB_KNOWLEDGE[job.labType] === 'estimate' ? estimateTraits(item.traits, rng) : item.estimates;
+  const record = state.pedigree[item.lineage.strainId];
+  return logEvents({
+    ...state,
+    labJobs,
+    buds: state.buds.map(i => i.id === item.id ? { ...i, knowledge, estimates } : i),
+    pedigree: record
+      ? { ...state.pedigree, [record.strainId]: { ...record, knowledge: maxKnowledge(record.knowledge, knowledge) } }
+      : state.pedigree,
+    rng: { ...state.rng, state: rng.state },
+    notifications: [...state.notifications, {
+      id: `${job.id}-done`,
+      message: `${LAB_NAMES[job.labType]} лаборатория: исследование «${item.name}» готово`,
+      createdAt: finishedAt
+    }],
+    gameStats: { ...state.gameStats, experimentsCount: state.gameStats.experimentsCount + 1 }
+  }, { type: 'research', at: finishedAt, strainId: item.lineage.strainId, name: item.name, budId: item.id, labType: job.labType, knowledge });
+};
+
+// Give free slots to queued jobs, oldest first
+const startQueuedJobs = (labJobs: LabJob[], startedAt: number): LabJob[] => {
+  let freeSlots = LAB_SLOTS - labJobs.filter(job => job.startedAt !== null).length;
+  return labJobs.map(job => {
+    if (job.startedAt !== null || freeSlots <= 0) return job;
+    freeSlots--;
+    return { ...job, startedAt };
+  });
+};
+
+// Finish every job due by the state's game time. Jobs complete in order, and a freed slot starts the
+// next queued job at the moment the previous one finished, so long sleeps chain jobs correctly.
+export const advanceLab = (state: GameState): GameState => {
+  let next = state;
+  for (;;) {
+    const due = next.labJobs
+      .filter(job => job.startedAt !== null && job.startedAt + job.duration <= state.gameTime)
+      .sort((a, b) => a.startedAt! + a.duration - (b.startedAt! + b.duration))[0];
+    if (!due) return next;
+    const finishedAt = due.startedAt! + due.duration;
+    next = completeJob(next, due, finishedAt);
+    next = { ...next, labJobs: startQueuedJobs(next.labJobs, finishedAt) };
+  }
+};
+
+// Pay for a job and queue it; it starts right away when a slot is free
+export const queueResearch = (state: GameState, budId: string, labType: LabType): GameState => {
+  const item = state.buds.find(i => i.id === budId);
+  if (!item || getBudJob(state, budId) || !canResearch(item.knowledge, labType)) return state;
+
+  const cost = LAB_COSTS[labType];
+  if (state.gameStats.money < cost) return state;
+
+  const ids = createIdGenerator(state.nextId);
+  const job: LabJob = {
+    id: ids.next('job'),
+    budId,
+    labType,
+    cost,
+    duration: LAB_DURATIONS[labType],
+    queuedAt: state.gameTime,
+    startedAt: null
+  };
+  return {
+    ...state,
+    labJobs: startQueuedJobs([...state.labJobs, job], state.gameTime),
+    nextId: ids.state,
+    gameStats: { ...state.gameStats, money: state.gameStats.money - cost }
+  };
+};
+
+export const cancelJob = (state: GameState, jobId: string): GameState => {
+  const job = state.labJobs.find(j => j.id === jobId);
+  if (!job) return state;
+
+  return {
+    ...state,
+    labJobs: startQueuedJobs(state.labJobs.filter(j => j.id !== jobId), state.gameTime),
+    gameStats: { ...state.gameStats, money: state.gameStats.money + getCancelRefund(job, state.gameTime) }
+  };
+};
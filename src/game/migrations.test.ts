@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState } from './engine';
+import { migrations } from './migrations';
+import { readSave, SaveError, serializeSave, SAVE_VERSION } from './save';
+import { storeStrains } from './strains';
+
+const northernLights = storeStrains.find(strain => strain.name === 'Northern Lights')!;
+
+// An unversioned save as the first release wrote it: gene-named genetics in the old catalog's letters
+// and Date.now() ids, shared here between collections and within one. Traits are what the old game
+// rolled, which only knew the letter pair of each gene (a hybrid's speed 'AA' rolled 2-4).
+const legacySave = {
+  plants: [{
+    id: '1700000000000',
+    name: 'Northern Lights',
+    stage: 'seed',
+    progress: 0,
+    genetics: { yield: 'Bb', speed: 'AA', potency: 'Aa' },
+    traits: { yield: 4, speed: 10, potency: 7 },
+    plantedAt: 1000
+  }],
+  buds: [{
+    id: '1700000000000',
+    name: 'Og Haze',
+    quantity: 3,
+    genetics: { yield: 'Aa', speed: 'AA', potency: 'Bb' },
+    traits: { yield: 6, speed: 3, potency: 2 },
+    isResearched: false,
+    harvestedAt: 900
+  }],
+  seeds: [
+    {
+      id: '1700000000001',
+      name: 'Northern Lights (семена)',
+      quantity: 2,
+      genetics: { yield: 'Bb', speed: 'AA', potency: 'Aa' },
+      traits: { yield: 4, speed: 10, potency: 7 },
+      isKnownGenetics: true,
+      createdAt: 500
+    },
+    {
+      id: '1700000000001',
+      name: 'Lemon Haze',
+      quantity: 1,
+      genetics: { yield: 'AA', speed: 'Aa', potency: 'Bb' },
+      traits: { yield: 8, speed: 6, potency: 5 },
+      isKnownGenetics: true,
+      createdAt: 500
+    }
+  ],
+  gameStats: { money: 500, totalHarvested: 0, bestYield: 0, bestPotency: 0, experimentsCount: 0, crossbreedingAttempts: 0 },
+  gameTime: 2000
+};
+
+describe('save migrations', () => {
+  it('reads back a current save unchanged', () => {
+    const state = createInitialState(1000, 'TEST');
+    expect(readSave(serializeSave(state, 5000))).toEqual({ state, savedAt: 5000 });
+  });
+
+  it('upgrades an unversioned save through the whole chain', () => {
+    const { state, savedAt } = readSave(JSON.stringify(legacySave));
+    expect(savedAt).toBeNull();
+    expect(state.plants).toHaveLength(1);
+    expect(state.buds).toHaveLength(1);
+    expect(state.seeds).toHaveLength(2);
+    expect(state.gameStats.money).toBe(500);
+    // The result is a current save in every respect, so it survives another round trip
+    expect(readSave(serializeSave(state)).state).toEqual(state);
+  });
+
+  it('gives every legacy item its own pedigree record, even when ids repeat', () => {
+    const { state } = readSave(JSON.stringify(legacySave));
+    const items = [...state.plants, ...state.buds, ...state.seeds];
+    expect(new Set(items.map(item => item.lineage.strainId)).size).toBe(items.length);
+    items.forEach(item => expect(state.pedigree[item.lineage.strainId].name).toBe(item.name));
+  });
+
+  it('rejects what it cannot read with the raw text kept', () => {
+    expect(() => readSave('{oops')).toThrow(SaveError);
+    expect(() => readSave(JSON.stringify({ version: SAVE_VERSION + 1, savedAt: 0, state: {} }))).toThrow(/новой версией/);
+    try {
+      readSave(JSON.stringify({ version: SAVE_VERSION, savedAt: 0, state: { plants: 'none' } }));
+    } catch (error) {
+      expect(error).toBeInstanceOf(SaveError);
+      expect((error as SaveError).raw).toContain('"plants":"none"');
+      expect((error as SaveError).details.length).toBeGreaterThan(0);
+    }
+    expect.assertions(5);
+  });
+
+  it('gives legacy store strains their catalog genotype', () => {
+    const { state } = readSave(JSON.stringify(legacySave));
+    const [plant] = state.plants;
+    expect(plant.genetics).toEqual(northernLights.genetics);
+    expect(state.seeds[0].genetics).toEqual(northernLights.genetics);
+    expect(state.pedigree[plant.lineage.strainId].genetics).toEqual(northernLights.genetics);
+  });
+
+  it('reads bred legacy genotypes off the bracket of their rolled traits', () => {
+    const { state } = readSave(JSON.stringify(legacySave));
+    // Yield 'Aa' rolled 5-7, but speed 'AA' and potency 'Bb' were not their gene's letters and rolled 2-4
+    expect(state.buds[0].genetics).toMatchObject({ A: 'Aa', B: 'bb', C: 'cc' });
+    expect(state.buds[0].traits).toMatchObject(legacySave.buds[0].traits);
+  });
+
+  it('derives the resistance genotype from pedigree parents', () => {
+    const [ogKush, , , , , gorillaGlue] = storeStrains;
+    const record = (strainId: string, parentIds: string[]) =>
+      ({ strainId, name: strainId, parentIds, genetics: { A: 'Aa', B: 'Bb', C: 'Cc' } });
+    const pedigree = Object.fromEntries([
+      record(ogKush.id, []),
+      record(northernLights.id, []),
+      record(gorillaGlue.id, []),
+      record('fixed', [ogKush.id, gorillaGlue.id]), // rr × rr
+      record('carrier', [ogKush.id, northernLights.id]), // rr × RR
+      record('open', ['carrier', 'carrier']), // Rr × Rr
+      record('unknown', [])
+    ].map(entry => [entry.strainId, entry]));
+    const seed = (strainId: string) => ({ lineage: { strainId }, genetics: {}, traits: {}, estimates: null });
+    const upgraded = migrations[8]({ pedigree, plants: [], buds: [], seeds: ['fixed', 'carrier', 'open', 'unknown'].map(seed), journal: [] });
+    const genotypes = (upgraded.seeds as { genetics: { R: string } }[]).map(item => item.genetics.R);
+    expect(genotypes).toEqual(['rr', 'Rr', 'Rr', 'Rr']);
+  });
+});
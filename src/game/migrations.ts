@@ -0,0 +1,274 @@
+import { FRESH_NUTRIENTS, STARTER_SUPPLIES } from './care';
+import { createInitialState, DEFAULT_OFFLINE_CAP_HOURS } from './engine';
+import { genotypesFor, getPossibleGenotypes, getTraitRange } from './genetics';
+import { createIdGenerator } from './ids';
+import { ESTIMATE_MARGIN } from './lab';
+import { toLineage } from './pedigree';
+import { DEFAULT_ENVIRONMENT } from './environment';
+import { createRoom, STARTER_POTS } from './rooms';
+import { storeStrains } from './strains';
+import { TRAITS, type Locus } from './traits';
+import type { KnowledgeLevel, PlantGenetics, StrainRecord } from './types';
+
+// Upgrades a save of version N to version N + 1. Migrations work on raw JSON: each one only knows
+// the shape it starts from, and the result is validated against the current schema at the end.
+export type Migration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+type RawItem = Record<string, unknown>;
+
+const asItems = (items: unknown): RawItem[] => Array.isArray(items) ? items : [];
+
+// Saves made before the trait registry keyed genetics by gene name and could carry the old catalog's
+// letters ('AA' for potency). Store strains, recognised by name, take their genotype from the catalog:
+// the old letters don't map onto it (old Northern Lights yield 'Bb' is 'aa' now). For anything bred,
+// the old game rolled a trait high only for its own letter pair ('AA' yield) and low for any other
+// ('AA' potency), so the stored trait value tells the genotype. Without one, a genotype of a single
+// A/B/C letter pair is relabelled onto its locus, keeping the allele case.
+const LEGACY_GENE_LOCI: Record<string, Locus> = { yield: 'A', speed: 'B', potency: 'C' };
+
+// Seeds made from buds were named '<strain> (семена)', possibly more than once
+const catalogStrainOf = (name: unknown) =>
+  typeof name === 'string' ? storeStrains.find(strain => strain.name === name.replace(/( \(семена\))+$/, '')) : undefined;
+
+// The genotype whose trait bracket holds a legacy trait value
+const genotypeFromTrait = (gene: string, locus: Locus, value: unknown) => {
+  const trait = TRAITS.find(definition => definition.id === gene);
+  if (!trait || typeof value !== 'number') return undefined;
+  return genotypesFor(locus).find(genotype => {
+    const [low, high] = getTraitRange(trait, { [locus]: genotype } as PlantGenetics);
+    return value >= low && value <= high;
+  });
+};
+
+const relabelLegacyGenetics = (genetics: unknown, name: unknown, traits?: unknown): unknown => {
+  if (typeof genetics !== 'object' || genetics === null || !('yield' in genetics)) return genetics;
+  const strain = catalogStrainOf(name);
+  if (strain) return Object.fromEntries(Object.values(LEGACY_GENE_LOCI).map(locus => [locus, strain.genetics[locus]]));
+  const raw = genetics as Record<string, unknown>;
+  const rolled = typeof traits === 'object' && traits !== null ? traits as Record<string, unknown> : {};
+  return Object.fromEntries(Object.entries(LEGACY_GENE_LOCI).map(([gene, locus]) => {
+    const derived = genotypeFromTrait(gene, locus, rolled[gene]);
+    if (derived) return [locus, derived];
+    const value = raw[gene];
+    if (typeof value !== 'string' || !/^[A-Ca-c]{2}$/.test(value) || value[0].toLowerCase() !== value[1].toLowerCase()) {
+      return [locus, value];
+    }
+    const relabelled = [...value].map(allele => allele === allele.toUpperCase() ? locus : locus.toLowerCase()).join('');
+    return [locus, relabelled];
+  }));
+};
+
+// Research flags from before the lab tiers; the old lab revealed exact traits
+const restoreKnowledge = ({ isResearched, isKnownGenetics }: RawItem, fallback = false): KnowledgeLevel =>
+  (isResearched ?? isKnownGenetics ?? fallback) ? 'genotype' : 'none';
+
+const restoreResearch = ({ isResearched, isKnownGenetics, ...item }: RawItem): RawItem => ({
+  ...item,
+  knowledge: item.knowledge ?? restoreKnowledge({ isResearched, isKnownGenetics }),
+  estimates: item.estimates ?? null
+});
+
+// Items saved before lineage tracking become roots of unknown origin. Old ids were timestamps shared
+// across (and even within) collections, so each item gets its own record keyed by collection and position.
+const restoreLineage = (item: RawItem, strainId: string, pedigree: Record<string, RawItem>): RawItem => {
+  const lineage = item.lineage as RawItem | undefined;
+  if (lineage && pedigree[lineage.strainId as string]) return item;
+  const record = {
+    strainId,
+    name: item.name,
+    genetics: item.genetics,
+    parentIds: [],
+    knowledge: item.knowledge ?? 'none',
+    generation: '?',
+    origin: 'unknown',
+    createdAt: item.plantedAt ?? item.harvestedAt ?? item.createdAt
+  };
+  pedigree[strainId] = record;
+  return { ...item, lineage: toLineage(record as unknown as StrainRecord) };
+};
+
+// Version 0: the unversioned save written straight from component state, in any of its historical shapes
+const migrateUnversioned: Migration = data => {
+  const fallback = createInitialState();
+  const pedigree: Record<string, RawItem> = Object.fromEntries(
+    Object.entries((data.pedigree as Record<string, RawItem>) || {}).map(([id, record]) => [id, {
+      ...record,
+      genetics: relabelLegacyGenetics(record.genetics, record.name),
+      knowledge: record.knowledge ?? restoreKnowledge(record, record.origin === 'store')
+    }])
+  );
+  const restoreItem = (item: RawItem) => ({ ...item, genetics: relabelLegacyGenetics(item.genetics, item.name, item.traits) });
+  return {
+    plants: asItems(data.plants).map((item, index) => restoreLineage(restoreItem(item), `legacy-plant-${index}`, pedigree)),
+    buds: asItems(data.buds).map((item, index) =>
+      restoreLineage(restoreResearch(restoreItem(item)), `legacy-bud-${index}`, pedigree)),
+    seeds: asItems(data.seeds).map((item, index) =>
+      restoreLineage(restoreResearch(restoreItem(item)), `legacy-seed-${index}`, pedigree)),
+    gameStats: data.gameStats || fallback.gameStats,
+    gameTime: data.gameTime || fallback.gameTime,
+    rng: data.rng || fallback.rng,
+    pedigree,
+    labJobs: data.labJobs || [],
+    notifications: data.notifications || []
+  };
+};
+
+// Version 1 had no founding time; the oldest timestamp in the save is the best guess for it
+const addStartedAt: Migration = state => {
+  const items = [...asItems(state.plants), ...asItems(state.buds), ...asItems(state.seeds)];
+  const records = Object.values((state.pedigree as Record<string, RawItem>) || {});
+  const times = [
+    state.gameTime,
+    ...items.flatMap(item => [item.plantedAt, item.harvestedAt, item.createdAt]),
+    ...records.map(record => record.createdAt)
+  ].filter((time): time is number => typeof time === 'number');
+  return { ...state, startedAt: Math.min(...times) };
+};
+
+// Version 2 had no settings
+const addSettings: Migration = state => ({ ...state, settings: { offlineCapHours: DEFAULT_OFFLINE_CAP_HOURS } });
+
+// Version 3 made ids from Date.now(), so things created within one millisecond could share an id.
+// Later duplicates get fresh counter ids; a lab job keeps pointing at the first bud with its id.
+const dedupeIds: Migration = state => {
+  const ids = createIdGenerator(1);
+  const dedupe = (items: unknown, prefix: string) => {
+    const seen = new Set<unknown>();
+    return asItems(items).map(item => {
+      if (!seen.has(item.id)) {
+        seen.add(item.id);
+        return item;
+      }
+      return { ...item, id: ids.next(prefix) };
+    });
+  };
+  return {
+    ...state,
+    plants: dedupe(state.plants, 'plant'),
+    buds: dedupe(state.buds, 'bud'),
+    seeds: dedupe(state.seeds, 'seed'),
+    labJobs: dedupe(state.labJobs, 'job'),
+    notifications: dedupe(state.notifications, 'notification'),
+    nextId: ids.state
+  };
+};
+
+// Version 4 kept no journal; history before it is unknown
+const addJournal: Migration = state => ({ ...state, journal: [] });
+
+// Version 5 had no rooms: everything already growing moves into a first room with a pot for each plant
+const addRooms: Migration = state => {
+  const nextId = state.nextId as number;
+  const room = createRoom(`room-${nextId}`, 0, Math.max(STARTER_POTS, asItems(state.plants).length));
+  return {
+    ...state,
+    rooms: [room],
+    plants: asItems(state.plants).map(plant => ({ ...plant, roomId: room.id })),
+    nextId: nextId + 1
+  };
+};
+
+// Version 6 had no climate: rooms start at the default one and plants so far grew unstressed
+const addEnvironment: Migration = state => ({
+  ...state,
+  rooms: asItems(state.rooms).map(room => ({ ...room, environment: DEFAULT_ENVIRONMENT })),
+  plants: asItems(state.plants).map(plant => ({ ...plant, stress: 0 }))
+});
+
+// Version 7 plants had no needs: they start watered, fed and healthy, and the farm gets the starter supplies
+const addCare: Migration = state => ({
+  ...state,
+  plants: asItems(state.plants).map(plant => ({ ...plant, water: 100, nutrients: FRESH_NUTRIENTS, health: 100 })),
+  supplies: STARTER_SUPPLIES
+});
+
+// Version 8 had no resistance locus. Store lines take it from the catalog, and so do legacy roots named
+// after a catalog strain. A bred strain gets the genotype its parents fix, or Rr where the cross leaves a
+// choice (every such cross can give Rr); roots of unknown origin become carriers (Rr) too. Values sit in
+// the middle of the genotype's range, and existing readings report the resulting value.
+const addResistance: Migration = state => {
+  const resistance = TRAITS.find(trait => trait.id === 'resistance')!;
+  const [min, max] = resistance.range;
+  const pedigree = (state.pedigree as Record<string, RawItem>) || {};
+  const parentsOf = (strainId: string): string[] => {
+    const parentIds = pedigree[strainId]?.parentIds;
+    return Array.isArray(parentIds) ? parentIds.filter((id): id is string => typeof id === 'string') : [];
+  };
+  const lineOf = (strainId: unknown) => typeof strainId !== 'string' ? undefined
+    : storeStrains.find(strain => strain.id === strainId)
+      ?? (pedigree[strainId] && parentsOf(strainId).length === 0 ? catalogStrainOf(pedigree[strainId].name) : undefined);
+  const genotypes = new Map<string, string>();
+  const genotypeOf = (strainId: unknown): string => {
+    if (typeof strainId !== 'string') return 'Rr';
+    const line = lineOf(strainId);
+    if (line) return line.genetics.R;
+    const known = genotypes.get(strainId);
+    if (known) return known;
+    genotypes.set(strainId, 'Rr'); // Also stops a looping pedigree
+    const [parent1, parent2 = parent1] = parentsOf(strainId).map(genotypeOf);
+    const possible = parent1 ? getPossibleGenotypes(parent1, parent2) : [];
+    const genotype = possible.length === 1 ? possible[0] : 'Rr';
+    genotypes.set(strainId, genotype);
+    return genotype;
+  };
+  const valueOf = (strainId: unknown) => {
+    const line = lineOf(strainId);
+    if (line) return line.traits.resistance;
+    const [low, high] = getTraitRange(resistance, { R: genotypeOf(strainId) } as PlantGenetics);
+    return Math.round((low + high) / 2);
+  };
+  const upgrade = (item: RawItem): RawItem => {
+    const strainId = (item.lineage as RawItem | undefined)?.strainId;
+    const value = valueOf(strainId);
+    const estimates = item.estimates as RawItem | null | undefined;
+    return {
+      ...item,
+      genetics: { ...(item.genetics as RawItem), R: genotypeOf(strainId) },
+      traits: { ...(item.traits as RawItem), resistance: value },
+      ...(estimates ? {
+        estimates: {
+          ...estimates,
+          resistance: { value, low: Math.max(min, value - ESTIMATE_MARGIN), high: Math.min(max, value + ESTIMATE_MARGIN) }
+        }
+      } : {})
+    };
+  };
+  return {
+    ...state,
+    plants: asItems(state.plants).map(plant => ({ ...upgrade(plant), infection: null })),
+    buds: asItems(state.buds).map(upgrade),
+    seeds: asItems(state.seeds).map(upgrade),
+    pedigree: Object.fromEntries(Object.entries(pedigree).map(([id, record]) =>
+      [id, { ...record, genetics: { ...(record.genetics as RawItem), R: genotypeOf(id) } }])),
+    journal: asItems(state.journal).map(event => event.type === 'death' ? { ...event, cause: 'neglect' } : event)
+  };
+};
+
+// Version 9 sent harvests straight to the inventory: existing buds count as a plain grade, and older
+// harvest entries have no batch to point at
+const addCuring: Migration = state => ({
+  ...state,
+  buds: asItems(state.buds).map(bud => ({ ...bud, grade: 'B' })),
+  batches: [],
+  journal: asItems(state.journal).map(event => {
+    if (event.type !== 'harvest') return event;
+    const { budId: _budId, ...rest } = event;
+    return { ...rest, batchId: null };
+  })
+});
+
+// migrations[N] turns a version N save into version N + 1
+export const migrations: Migration[] = [
+  migrateUnversioned,
+  addStartedAt,
+  addSettings,
+  dedupeIds,
+  addJournal,
+  addRooms,
+  addEnvironment,
+  addCare,
+  addResistance,
+  addCuring
+];
+
+export const CURRENT_SAVE_VERSION = migrations.length;
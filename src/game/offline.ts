@@ -0,0 +1,39 @@
+import { isWilting } from './care';
+import { gameReducer, TICK_MS, TICK_REAL_MS } from './engine';
+import { describeDeath } from './journal';
+import { HOUR_MS } from './time';
+import type { GameState } from './types';
+
+// Catch-up for the time the tab was closed: real time converts to game time at the normal tick rate
+export const OFFLINE_CAP_OPTIONS = [0, 6, 24, 72]; // Game hours
+
+export interface OfflineReport {
+  elapsed: number; // Game ms simulated
+  capped: boolean; // More time passed than the cap allowed
+  wiltingPlants: string[]; // Plants left wilting without water at the end of the catch-up
+  readyPlants: string[]; // Plants that reached harvest while away
+  lostPlants: string[]; // Plants that died while away, with the cause
+  labMessages: string[]; // Lab jobs finished while away
+}
+
+export const catchUpOffline = (state: GameState, realElapsed: number): { state: GameState; report: OfflineReport | null } => {
+  const wanted = Math.max(0, realElapsed) / TICK_REAL_MS * TICK_MS;
+  const elapsed = Math.min(wanted, state.settings.offlineCapHours * HOUR_MS);
+  if (elapsed < TICK_MS) return { state, report: null };
+
+  const next = gameReducer(state, { type: 'sleep', hours: elapsed / HOUR_MS });
+  const wiltingPlants = next.plants.filter(isWilting).map(plant => plant.name);
+  const readyPlants = next.plants
+    .filter(plant => plant.stage === 'harvest' && state.plants.find(p => p.id === plant.id)?.stage !== 'harvest')
+    .map(plant => plant.name);
+  const lostPlants = next.journal.slice(state.journal.length).flatMap(event =>
+    event.type === 'death' ? [describeDeath(event.name, event.cause)] : []);
+  // Lab results go into the report instead of a burst of toasts
+  const labNotices = new Set(state.labJobs.map(job => `${job.id}-done`));
+  const labMessages = next.notifications.filter(n => labNotices.has(n.id)).map(n => n.message);
+
+  return {
+    state: { ...next, notifications: state.notifications },
+    report: elapsed >= HOUR_MS ? { elapsed, capped: wanted > elapsed, wiltingPlants, readyPlants, lostPlants, labMessages } : null
+  };
+};
@@ -0,0 +1,118 @@
+import type { Generation, Lineage, LineageOrigin, StrainRecord } from './types';
+
+type Pedigree = Record<string, StrainRecord>;
+
+export const toLineage = ({ strainId, parentIds, generation, origin, createdAt }: StrainRecord): Lineage => ({
+  strainId,
+  parentIds,
+  generation,
+  origin,
+  createdAt
+});
+
+// Number in a generation label of the given kind: getGenerationNumber('F2', 'F') === 2
+const getGenerationNumber = (generation: Generation, kind: 'F' | 'BC' | 'S'): number | null => {
+  const match = new RegExp(`^${kind}(\\d+)$`).exec(generation);
+  return match ? Number(match[1]) : null;
+};
+
+// All strain ids up the tree from a strain (excluding itself)
+export const getAncestorIds = (pedigree: Pedigree, strainId: string): Set<string> => {
+  const ancestors = new Set<string>();
+  const queue = [...(pedigree[strainId]?.parentIds ?? [])];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (ancestors.has(id)) continue;
+    ancestors.add(id);
+    queue.push(...(pedigree[id]?.parentIds ?? []));
+  }
+  return ancestors;
+};
+
+const sameParents = (a: StrainRecord, b: StrainRecord): boolean =>
+  a.parentIds.length > 0 && a.parentIds.length === b.parentIds.length && a.parentIds.every(id => b.parentIds.includes(id));
+
+// Generation and cross kind of a hybrid of two strains:
+// selfing advances Fn/Sn, crossing back to an ancestor is a backcross, siblings advance Fn, anything else starts a new F1
+export const getHybridGeneration = (
+  pedigree: Pedigree,
+  parent1: StrainRecord,
+  parent2: StrainRecord
+): { generation: Generation; origin: LineageOrigin } => {
+  if (parent1.strainId === parent2.strainId) {
+    const filial = getGenerationNumber(parent1.generation, 'F');
+    if (filial !== null) return { generation: `F${filial + 1}`, origin: 'selfing' };
+    return { generation: `S${(getGenerationNumber(parent1.generation, 'S') ?? 0) + 1}`, origin: 'selfing' };
+  }
+
+  const [hybrid, recurrent] = getAncestorIds(pedigree, parent1.strainId).has(parent2.strainId)
+    ? [parent1, parent2]
+    : getAncestorIds(pedigree, parent2.strainId).has(parent1.strainId) ? [parent2, parent1] : [null, null];
+  if (hybrid && recurrent) {
+    return { generation: `BC${(getGenerationNumber(hybrid.generation, 'BC') ?? 0) + 1}`, origin: 'backcross' };
+  }
+
+  const filial1 = getGenerationNumber(parent1.generation, 'F');
+  const filial2 = getGenerationNumber(parent2.generation, 'F');
+  if (filial1 !== null && filial1 === filial2 && sameParents(parent1, parent2)) {
+    return { generation: `F${filial1 + 1}`, origin: 'cross' };
+  }
+
+  return { generation: 'F1', origin: 'cross' };
+};
+
+export interface PedigreeNode {
+  record: StrainRecord;
+  layer: number; // 0 = the inspected strain, growing towards older generations
+}
+
+export interface PedigreeEdge {
+  parentId: string;
+  childId: string;
+  origin: LineageOrigin;
+}
+
+export interface PedigreeGraph {
+  layers: PedigreeNode[][];
+  edges: PedigreeEdge[];
+}
+
+// Ancestor graph of a strain laid out in layers. Shared ancestors appear once (on their deepest layer),
+// so inbred lines and long backcross programs grow with the number of strains, not 2^generations.
+export const buildPedigreeGraph = (pedigree: Pedigree, strainId: string): PedigreeGraph => {
+  const layerOf = new Map<string, number>();
+  const edges: PedigreeEdge[] = [];
+  const seenEdges = new Set<string>();
+  const visit = (id: string, layer: number) => {
+    if (!pedigree[id] || (layerOf.get(id) ?? -1) >= layer) return;
+    layerOf.set(id, layer);
+    for (const parentId of pedigree[id].parentIds) {
+      const key = `${parentId}>${id}`;
+      if (!seenEdges.has(key) && pedigree[parentId]) {
+        seenEdges.add(key);
+        edges.push({ parentId, childId: id, origin: pedigree[id].origin });
+      }
+      visit(parentId, layer + 1);
+    }
+  };
+  visit(strainId, 0);
+
+  const layers: PedigreeNode[][] = [];
+  for (const [id, layer] of layerOf) {
+    (layers[layer] ??= []).push({ record: pedigree[id], layer });
+  }
+
+  // Order each layer by the mean position of its children to keep edges short
+  for (let layer = 1; layer < layers.length; layer++) {
+    const childPosition = new Map(layers[layer - 1].map((node, index) => [node.record.strainId, index]));
+    const weight = (node: PedigreeNode) => {
+      const positions = edges
+        .filter(edge => edge.parentId === node.record.strainId && childPosition.has(edge.childId))
+        .map(edge => childPosition.get(edge.childId)!);
+      return positions.length > 0 ? positions.reduce((a, b) => a + b, 0) / positions.length : Infinity;
+    };
+    layers[layer].sort((a, b) => weight(a) - weight(b));
+  }
+
+  return { layers: layers.filter(Boolean), edges };
+};
@@ -0,0 +1,138 @@
+import { DEFAULT_ENVIRONMENT } from './environment';
+import { logEvents } from './journal';
+import { createRng } from './random';
+import { TRAITS } from './traits';
+import type { GameNotification, GameState, JournalEvent, PestId, Plant, RoomEnvironment } from './types';
+
+// Pests and diseases: growing plants can catch one at random, more often in the conditions it likes,
+// and an infected plant passes it to the others in its room. Severity grows until the plant is treated,
+// draining health on the way. The resistance trait cuts the chance of catching anything.
+export interface PestDefinition {
+  label: string;
+  icon: string;
+  treatment: string;
+  price: number; // Treatment of one plant
+  condition: string; // What makes an outbreak likelier, for the player
+  favoured: (environment: RoomEnvironment, plant: Plant) => boolean;
+}
+
+export const PESTS: Record<PestId, PestDefinition> = {
+  mites: {
+    label: 'Паутинный клещ',
+    icon: '🕷️',
+    treatment: 'Акарицид',
+    price: 150,
+    condition: 'сухо (влажность ниже 40%) или жарко (выше 30°C)',
+    favoured: environment => environment.humidity < 40 || environment.temperature > 30
+  },
+  mold: {
+    label: 'Серая гниль',
+    icon: '🍄',
+    treatment: 'Фунгицид',
+    price: 120,
+    condition: 'влажность выше 70%',
+    favoured: environment => environment.humidity > 70
+  },
+  rootRot: {
+    label: 'Корневая гниль',
+    icon: '🦠',
+    treatment: 'Биопрепарат для корней',
+    price: 100,
+    condition: 'перелив (вода выше 90)',
+    favoured: (_, plant) => plant.water > 90
+  }
+};
+
+export const PEST_IDS = Object.keys(PESTS) as PestId[];
+
+export const OUTBREAK_CHANCE = 0.0005; // Per growing plant, pest and tick
+export const FAVOURED_MULTIPLIER = 6; // Outbreak chance in the conditions a pest likes
+export const SPREAD_CHANCE = 0.03; // Per tick from each infected plant in the same room
+export const SEVERITY_GROWTH = 1.5; // Per tick
+export const PEST_DAMAGE = 1.2; // Health lost per tick at full severity
+export const RESISTANCE_PROTECTION = 0.8; // Share of the infection chance the top resistance removes
+
+const RESISTANCE = TRAITS.find(trait => trait.id === 'resistance')!;
+
+// Share of the base infection chance a plant keeps: 1 at the lowest resistance
+export const getInfectionRisk = (plant: Plant): number => {
+  const [min, max] = RESISTANCE.range;
+  return 1 - RESISTANCE_PROTECTION * (plant.traits.resistance - min) / (max - min);
+};
+
+// One tick: infections worsen and hurt their plants, healthy growing plants may catch something.
+// Spread counts the infections the room had at the start of the tick. Ripe plants are left alone.
+export const advancePests = (state: GameState): GameState => {
+  if (!state.plants.some(plant => plant.progress < 100)) return state;
+
+  const rng = createRng(state.rng.state);
+  const rooms = new Map(state.rooms.map(room => [room.id, room]));
+  const infected = new Map<string, number>();
+  state.plants.forEach(plant => {
+    if (plant.progress >= 100 || !plant.infection) return;
+    const key = `${plant.roomId}:${plant.infection.pest}`;
+    infected.set(key, (infected.get(key) ?? 0) + 1);
+  });
+
+  const events: JournalEvent[] = [];
+  const notifications: GameNotification[] = [];
+  const plants = state.plants.map(plant => {
+    if (plant.progress >= 100) return plant;
+    if (plant.infection) {
+      const severity = Math.min(100, plant.infection.severity + SEVERITY_GROWTH);
+      return {
+        ...plant,
+        infection: { ...plant.infection, severity },
+        health: Math.max(0, plant.health - PEST_DAMAGE * severity / 100)
+      };
+    }
+
+    const room = rooms.get(plant.roomId);
+    const risk = getInfectionRisk(plant);
+    for (const pest of PEST_IDS) {
+      const sources = infected.get(`${plant.roomId}:${pest}`) ?? 0;
+      const outbreak = OUTBREAK_CHANCE * (PESTS[pest].favoured(room?.environment ?? DEFAULT_ENVIRONMENT, plant) ? FAVOURED_MULTIPLIER : 1);
+      const spread = 1 - (1 - SPREAD_CHANCE) ** sources;
+      if (!rng.chance((outbreak + spread) * risk)) continue;
+
+      events.push({
+        type: 'infection',
+        at: state.gameTime,
+        strainId: plant.lineage.strainId,
+        name: plant.name,
+        plantId: plant.id,
+        pest,
+        spread: sources > 0
+      });
+      notifications.push({
+        id: `${plant.id}-${pest}-${state.gameTime}`,
+        message: `${PESTS[pest].icon} ${PESTS[pest].label}: ${plant.name}${room ? ` (${room.name})` : ''}`,
+        createdAt: state.gameTime
+      });
+      return { ...plant, infection: { pest, severity: 0, since: state.gameTime } };
+    }
+    return plant;
+  });
+
+  return logEvents({
+    ...state,
+    plants,
+    rng: { ...state.rng, state: rng.state },
+    notifications: [...state.notifications, ...notifications]
+  }, ...events);
+};
+
+// Pay for the matching treatment; it clears the infection but not the damage already done
+export const treatPlant = (state: GameState, plantId: string): GameState => {
+  const plant = state.plants.find(p => p.id === plantId);
+  if (!plant?.infection) return state;
+
+  const { price } = PESTS[plant.infection.pest];
+  if (state.gameStats.money < price) return state;
+
+  return {
+    ...state,
+    plants: state.plants.map(p => p.id === plantId ? { ...p, infection: null } : p),
+    gameStats: { ...state.gameStats, money: state.gameStats.money - price }
+  };
+};
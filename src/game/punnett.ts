@@ -0,0 +1,90 @@
+import { genotypesFor, getTraitRange, MUTATION_RATE, normalizeGenotype } from './genetics';
+import { LOCI, type Locus, type TraitDefinition } from './traits';
+import type { PlantGenetics } from './types';
+
+export interface PunnettSquare {
+  rows: string[]; // Alleles of parent 1
+  columns: string[]; // Alleles of parent 2
+  cells: string[][]; // cells[row][column] = child genotype
+}
+
+export interface GenomeOutcome {
+  genetics: PlantGenetics;
+  probability: number;
+}
+
+export interface TraitDistribution {
+  values: { value: number; probability: number }[];
+  expected: number;
+}
+
+export const getPunnettSquare = (parent1: string, parent2: string): PunnettSquare => {
+  const rows = [...parent1];
+  const columns = [...parent2];
+  return {
+    rows,
+    columns,
+    cells: rows.map(a1 => columns.map(a2 => normalizeGenotype(a1 + a2)))
+  };
+};
+
+// Child genotype probabilities for one locus; a mutation rerolls the genotype uniformly
+export const getLocusDistribution = (
+  locus: Locus,
+  parent1: string,
+  parent2: string,
+  mutationRate = MUTATION_RATE
+): Map<string, number> => {
+  const distribution = new Map<string, number>();
+  const add = (genotype: string, probability: number) =>
+    distribution.set(genotype, (distribution.get(genotype) ?? 0) + probability);
+
+  getPunnettSquare(parent1, parent2).cells.flat().forEach(genotype => add(genotype, (1 - mutationRate) / 4));
+  const mutations = genotypesFor(locus);
+  mutations.forEach(genotype => add(genotype, mutationRate / mutations.length));
+  return distribution;
+};
+
+// Probability of every combined child genome over the given loci, most likely first
+export const getGenomeDistribution = (
+  parent1: PlantGenetics,
+  parent2: PlantGenetics,
+  loci: readonly Locus[] = LOCI,
+  mutationRate = MUTATION_RATE
+): GenomeOutcome[] => {
+  const outcomes = loci.reduce<GenomeOutcome[]>((partial, locus) => {
+    const distribution = [...getLocusDistribution(locus, parent1[locus], parent2[locus], mutationRate)];
+    return partial.flatMap(outcome => distribution.map(([genotype, probability]) => ({
+      genetics: { ...outcome.genetics, [locus]: genotype },
+      probability: outcome.probability * probability
+    })));
+  }, [{ genetics: parent1, probability: 1 }]);
+  return outcomes.sort((a, b) => b.probability - a.probability);
+};
+
+// Expected phenotype distribution of a trait; values are rolled uniformly within a genotype's range
+export const getTraitDistribution = (
+  trait: TraitDefinition,
+  parent1: PlantGenetics,
+  parent2: PlantGenetics,
+  mutationRate = MUTATION_RATE
+): TraitDistribution => {
+  const probabilities = new Map<number, number>();
+  for (const { genetics, probability } of getGenomeDistribution(parent1, parent2, trait.loci as readonly Locus[], mutationRate)) {
+    const [min, max] = getTraitRange(trait, genetics);
+    for (let value = min; value <= max; value++) {
+      probabilities.set(value, (probabilities.get(value) ?? 0) + probability / (max - min + 1));
+    }
+  }
+  const values = [...probabilities]
+    .map(([value, probability]) => ({ value, probability }))
+    .sort((a, b) => a.value - b.value);
+  return {
+    values,
+    expected: values.reduce((sum, { value, probability }) => sum + value * probability, 0)
+  };
+};
+
+// Genotypes of a genome in locus order, e.g. 'Aa BB cc'
+export const formatGenome = (genetics: PlantGenetics, loci: readonly Locus[] = LOCI): string =>
+  loci.map(locus => genetics[locus]).join(' ');
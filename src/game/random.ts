@@ -0,0 +1,55 @@
+// Seedable PRNG (mulberry32) so the same save and the same actions always roll the same outcomes
+
+export interface RngState {
+  seed: string; // Shareable seed the run started from
+  state: number; // Current 32-bit generator state
+}
+
+export interface Rng {
+  next: () => number; // [0, 1)
+  int: (max: number) => number; // [0, max)
+  chance: (probability: number) => boolean;
+  pick: <T>(items: readonly T[]) => T;
+  readonly state: number;
+}
+
+// Hash a share seed string into the initial generator state (FNV-1a)
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Fresh seed for a new run; the only place the engine touches Math.random
+export const generateSeed = (): string =>
+  Math.floor(Math.random() * 0xffffffff).toString(36).toUpperCase().padStart(7, '0');
+
+export const createRngState = (seed: string = generateSeed()): RngState => ({
+  seed,
+  state: hashSeed(seed)
+});
+
+export const createRng = (initialState: number): Rng => {
+  let state = initialState >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: max => Math.floor(next() * max),
+    chance: probability => next() < probability,
+    pick: items => items[Math.floor(next() * items.length)],
+    get state() {
+      return state;
+    }
+  };
+};
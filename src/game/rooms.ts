@@ -0,0 +1,58 @@
+import { clampEnvironment, DEFAULT_ENVIRONMENT, type EnvironmentFactor } from './environment';
+import { createIdGenerator } from './ids';
+import type { GameState, GrowRoom } from './types';
+
+// Grow rooms: plants need a free pot, and space is bought as more pots per room or more rooms
+export const STARTER_POTS = 4;
+export const MAX_POTS_PER_ROOM = 12;
+export const ROOM_BASE_PRICE = 1500; // Doubles with every room owned
+export const POT_BASE_PRICE = 100; // Grows by half with every pot above the starter ones
+
+export const createRoom = (id: string, index: number, pots = STARTER_POTS): GrowRoom =>
+  ({ id, name: `Комната ${index + 1}`, pots, environment: DEFAULT_ENVIRONMENT });
+
+export const getRoomPrice = (state: GameState): number => ROOM_BASE_PRICE * 2 ** (state.rooms.length - 1);
+
+export const getPotPrice = (room: GrowRoom): number | null =>
+  room.pots >= MAX_POTS_PER_ROOM ? null : Math.round(POT_BASE_PRICE * 1.5 ** (room.pots - STARTER_POTS));
+
+export const getRoomPlants = (state: GameState, roomId: string) => state.plants.filter(plant => plant.roomId === roomId);
+
+export const getFreePots = (state: GameState, roomId: string): number => {
+  const room = state.rooms.find(r => r.id === roomId);
+  return room ? room.pots - getRoomPlants(state, roomId).length : 0;
+};
+
+// First room with an empty pot, for planting without picking a room
+export const findFreeRoom = (state: GameState): GrowRoom | undefined =>
+  state.rooms.find(room => getFreePots(state, room.id) > 0);
+
+export const buyRoom = (state: GameState): GameState => {
+  const price = getRoomPrice(state);
+  if (state.gameStats.money < price) return state;
+  const ids = createIdGenerator(state.nextId);
+  return {
+    ...state,
+    rooms: [...state.rooms, createRoom(ids.next('room'), state.rooms.length)],
+    nextId: ids.state,
+    gameStats: { ...state.gameStats, money: state.gameStats.money - price }
+  };
+};
+
+export const buyPot = (state: GameState, roomId: string): GameState => {
+  const room = state.rooms.find(r => r.id === roomId);
+  const price = room && getPotPrice(room);
+  if (!room || price === null || price === undefined || state.gameStats.money < price) return state;
+  return {
+    ...state,
+    rooms: state.rooms.map(r => r.id === roomId ? { ...r, pots: r.pots + 1 } : r),
+    gameStats: { ...state.gameStats, money: state.gameStats.money - price }
+  };
+};
+
+export const setEnvironment = (state: GameState, roomId: string, factor: EnvironmentFactor, value: number): GameState => ({
+  ...state,
+  rooms: state.rooms.map(room => room.id === roomId
+    ? { ...room, environment: { ...room.environment, [factor]: clampEnvironment(factor, value) } }
+    : room)
+});
@@ -0,0 +1,64 @@
+import { CURRENT_SAVE_VERSION, migrations } from './migrations';
+import { gameStateSchema, saveEnvelopeSchema } from './saveSchema';
+import type { GameState } from './types';
+
+export const SAVE_KEY = 'weedgroove-save';
+export const SAVE_VERSION = CURRENT_SAVE_VERSION;
+
+// Save that cannot be read; keeps the raw text so the player can still take it with them
+export class SaveError extends Error {
+  constructor(message: string, readonly raw: string, readonly details: string[] = []) {
+    super(message);
+    this.name = 'SaveError';
+  }
+}
+
+export interface SaveEnvelope {
+  version: number;
+  savedAt: number;
+  state: GameState;
+}
+
+export const serializeSave = (state: GameState, savedAt = Date.now()): string =>
+  JSON.stringify({ version: SAVE_VERSION, savedAt, state } satisfies SaveEnvelope);
+
+// Read a save of any known version: unwrap the envelope (bare states are version 0), run the
+// migrations up to the current version, then validate the result. savedAt is null for bare states.
+export const readSave = (raw: string): { state: GameState; savedAt: number | null } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new SaveError('Сохранение не является корректным JSON', raw);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new SaveError('Сохранение не содержит состояния игры', raw);
+  }
+
+  const envelope = 'version' in data ? saveEnvelopeSchema.safeParse(data) : null;
+  if (envelope && !envelope.success) {
+    throw new SaveError('Повреждён заголовок сохранения', raw, envelope.error.issues.map(formatIssue));
+  }
+  const version = envelope ? envelope.data.version : 0;
+  if (version > SAVE_VERSION) {
+    throw new SaveError(`Сохранение создано более новой версией игры (v${version}, поддерживается до v${SAVE_VERSION})`, raw);
+  }
+
+  let state = envelope ? envelope.data.state : data as Record<string, unknown>;
+  try {
+    for (let from = version; from < SAVE_VERSION; from++) state = migrations[from](state);
+  } catch (error) {
+    throw new SaveError('Не удалось обновить сохранение до текущей версии', raw, [String(error)]);
+  }
+
+  const result = gameStateSchema.safeParse(state);
+  if (!result.success) {
+    throw new SaveError('Сохранение повреждено', raw, result.error.issues.map(formatIssue));
+  }
+  return { state: result.data, savedAt: envelope ? envelope.data.savedAt : null };
+};
+
+export const parseSave = (raw: string): GameState => readSave(raw).state;
+
+const formatIssue = (issue: { path: (string | number)[]; message: string }) =>
+  `${issue.path.join('.') || '(корень)'}: ${issue.message}`;
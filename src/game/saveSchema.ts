@@ -0,0 +1,199 @@
+import { z } from 'zod';
+import { parseGenetics } from './genetics';
+import { PEST_IDS } from './pests';
+import { LOCI, TRAITS, type Locus, type TraitId } from './traits';
+import type {
+  BudItem, GameNotification, GameState, Generation, HarvestBatch, JournalEvent, LabJob, Lineage, PestId, Plant, PlantGenetics, PlantTraits,
+  SeedItem, StrainRecord, TraitEstimate, TraitEstimates
+} from './types';
+
+// Shape of the current save version. Typed against GameState, so a state change that is not mirrored
+// here fails to compile.
+
+// Genetics go through the same parser the catalog uses, so saves and store strains share one rule
+const geneticsSchema: z.ZodType<PlantGenetics, z.ZodTypeDef, unknown> = z.unknown().transform((value, ctx) => {
+  try {
+    return parseGenetics(value);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : String(error) });
+    return z.NEVER;
+  }
+});
+
+const pestSchema = z.enum(PEST_IDS as [PestId, ...PestId[]]);
+
+// One entry per registered trait; fromEntries loses the keys, so they are restated from the registry
+const perTrait = <S extends z.ZodTypeAny>(schema: S) =>
+  z.object(Object.fromEntries(TRAITS.map(trait => [trait.id, schema])) as Record<TraitId, S>);
+
+const traitsSchema: z.ZodType<PlantTraits> = perTrait(z.number());
+
+const estimateSchema: z.ZodType<TraitEstimate> = z.object({
+  value: z.number(),
+  low: z.number(),
+  high: z.number()
+});
+
+const estimatesSchema: z.ZodType<TraitEstimates> = perTrait(estimateSchema);
+
+const knowledgeSchema = z.enum(['none', 'estimate', 'genotype']);
+
+const generationSchema = z.string().regex(/^(P|\?|(F|BC|S)\d+)$/, 'Неизвестное поколение') as z.ZodType<Generation>;
+
+const lineageSchema: z.ZodType<Lineage> = z.object({
+  strainId: z.string(),
+  parentIds: z.array(z.string()),
+  generation: generationSchema,
+  origin: z.enum(['store', 'cross', 'backcross', 'selfing', 'unknown']),
+  createdAt: z.number()
+});
+
+const strainRecordSchema: z.ZodType<StrainRecord, z.ZodTypeDef, unknown> = z.object({
+  strainId: z.string(),
+  parentIds: z.array(z.string()),
+  generation: generationSchema,
+  origin: z.enum(['store', 'cross', 'backcross', 'selfing', 'unknown']),
+  createdAt: z.number(),
+  name: z.string(),
+  genetics: geneticsSchema,
+  knowledge: knowledgeSchema
+});
+
+const plantSchema: z.ZodType<Plant, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  roomId: z.string(),
+  name: z.string(),
+  stage: z.enum(['seed', 'sprout', 'vegetative', 'flowering', 'harvest']),
+  progress: z.number(),
+  stress: z.number().min(0).max(1),
+  water: z.number().min(0).max(100),
+  nutrients: z.object({ n: z.number().min(0).max(100), p: z.number().min(0).max(100), k: z.number().min(0).max(100) }),
+  health: z.number().min(0).max(100),
+  infection: z.object({ pest: pestSchema, severity: z.number().min(0).max(100), since: z.number() }).nullable(),
+  genetics: geneticsSchema,
+  traits: traitsSchema,
+  lineage: lineageSchema,
+  plantedAt: z.number()
+});
+
+const itemFields = {
+  id: z.string(),
+  name: z.string(),
+  quantity: z.number().int().nonnegative(),
+  genetics: geneticsSchema,
+  traits: traitsSchema,
+  knowledge: knowledgeSchema,
+  estimates: estimatesSchema.nullable(),
+  lineage: lineageSchema
+};
+
+const gradeSchema = z.enum(['S', 'A', 'B', 'C', 'D']);
+
+const budSchema: z.ZodType<BudItem, z.ZodTypeDef, unknown> = z.object({ ...itemFields, harvestedAt: z.number(), grade: gradeSchema });
+
+const batchSchema: z.ZodType<HarvestBatch, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  name: z.string(),
+  quantity: z.number().int().nonnegative(),
+  genetics: geneticsSchema,
+  traits: traitsSchema,
+  lineage: lineageSchema,
+  harvestedAt: z.number(),
+  quality: z.number().min(0).max(100),
+  stage: z.enum(['drying', 'curing']),
+  stageStartedAt: z.number()
+});
+
+const seedSchema: z.ZodType<SeedItem, z.ZodTypeDef, unknown> = z.object({ ...itemFields, createdAt: z.number() });
+
+const labJobSchema: z.ZodType<LabJob> = z.object({
+  id: z.string(),
+  budId: z.string(),
+  labType: z.enum(['cheap', 'premium']),
+  cost: z.number(),
+  duration: z.number(),
+  queuedAt: z.number(),
+  startedAt: z.number().nullable()
+});
+
+const notificationSchema: z.ZodType<GameNotification> = z.object({
+  id: z.string(),
+  message: z.string(),
+  createdAt: z.number()
+});
+
+const journalBase = { at: z.number(), strainId: z.string(), name: z.string() };
+
+const journalEventSchema: z.ZodType<JournalEvent> = z.discriminatedUnion('type', [
+  z.object({ ...journalBase, type: z.literal('buy'), seedId: z.string(), price: z.number() }),
+  z.object({ ...journalBase, type: z.literal('plant'), plantId: z.string() }),
+  z.object({ ...journalBase, type: z.literal('death'), plantId: z.string(), cause: z.union([z.literal('neglect'), pestSchema]) }),
+  z.object({ ...journalBase, type: z.literal('infection'), plantId: z.string(), pest: pestSchema, spread: z.boolean() }),
+  z.object({ ...journalBase, type: z.literal('harvest'), batchId: z.string().nullable(), quantity: z.number() }),
+  z.object({ ...journalBase, type: z.literal('pack'), budId: z.string(), quantity: z.number(), grade: gradeSchema }),
+  z.object({ ...journalBase, type: z.literal('sell'), quantity: z.number(), income: z.number() }),
+  z.object({ ...journalBase, type: z.literal('convert'), seedId: z.string(), quantity: z.number() }),
+  z.object({ ...journalBase, type: z.literal('cross'), seedId: z.string(), parentIds: z.array(z.string()) }),
+  z.object({
+    ...journalBase,
+    type: z.literal('mutation'),
+    seedId: z.string(),
+    locus: z.enum(LOCI as [Locus, ...Locus[]]),
+    from: z.string(),
+    to: z.string()
+  }),
+  z.object({
+    ...journalBase,
+    type: z.literal('research'),
+    budId: z.string(),
+    labType: z.enum(['cheap', 'premium']),
+    knowledge: knowledgeSchema
+  })
+]);
+
+export const gameStateSchema: z.ZodType<GameState, z.ZodTypeDef, unknown> = z.object({
+  rooms: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    pots: z.number().int().positive(),
+    environment: z.object({ light: z.number(), photoperiod: z.number(), temperature: z.number(), humidity: z.number() })
+  })),
+  plants: z.array(plantSchema),
+  buds: z.array(budSchema),
+  seeds: z.array(seedSchema),
+  batches: z.array(batchSchema),
+  supplies: z.object({ water: z.number().int().nonnegative(), grow: z.number().int().nonnegative(), bloom: z.number().int().nonnegative() }),
+  gameStats: z.object({
+    money: z.number(),
+    totalHarvested: z.number(),
+    bestYield: z.number(),
+    bestPotency: z.number(),
+    experimentsCount: z.number(),
+    crossbreedingAttempts: z.number()
+  }),
+  startedAt: z.number(),
+  gameTime: z.number(),
+  rng: z.object({ seed: z.string(), state: z.number().int() }),
+  nextId: z.number().int().positive(),
+  pedigree: z.record(strainRecordSchema),
+  labJobs: z.array(labJobSchema),
+  notifications: z.array(notificationSchema),
+  journal: z.array(journalEventSchema),
+  settings: z.object({ offlineCapHours: z.number().nonnegative() })
+}).superRefine((state, ctx) => {
+  // Lookups go by id, so a duplicate would silently hide an item
+  (['rooms', 'plants', 'buds', 'seeds', 'batches', 'labJobs'] as const).forEach(key => {
+    const seen = new Set<string>();
+    state[key].forEach(({ id }, index) => {
+      if (seen.has(id)) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key, index, 'id'], message: `Повторяющийся id ${id}` });
+      seen.add(id);
+    });
+  });
+});
+
+// Saved file: the state plus the format version it was written with
+export const saveEnvelopeSchema = z.object({
+  version: z.number().int().nonnegative(),
+  savedAt: z.number(),
+  state: z.record(z.unknown())
+});
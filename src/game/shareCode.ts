@@ -0,0 +1,34 @@
+import { parseSave, SaveError } from './save';
+import type { GameState } from './types';
+
+// Share code: the save file deflated and base64url-encoded, short enough to paste into a chat
+export const SHARE_CODE_PREFIX = 'WG1.';
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+// Encodes saved text as is, so a slot from an older version or a broken one can be shared too
+export const encodeShareCode = async (save: string): Promise<string> =>
+  SHARE_CODE_PREFIX + toBase64Url(await transform(new TextEncoder().encode(save), new CompressionStream('deflate-raw')));
+
+// Unpacks a code and reads it like any other save; whitespace from chat line wrapping is ignored
+export const decodeShareCode = async (code: string): Promise<GameState> => {
+  const compact = code.replace(/\s+/g, '');
+  if (!compact.startsWith(SHARE_CODE_PREFIX)) throw new SaveError('Это не код фермы WeedGroove', code);
+  let save: string;
+  try {
+    save = new TextDecoder().decode(await transform(fromBase64Url(compact.slice(SHARE_CODE_PREFIX.length)), new DecompressionStream('deflate-raw')));
+  } catch {
+    throw new SaveError('Код повреждён или скопирован не полностью', code);
+  }
+  return parseSave(save);
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState } from './engine';
+import { readSave, SAVE_KEY, serializeSave } from './save';
+import { AUTOSAVE_SNAPSHOTS, BROKEN_INDEX_KEY, createSlotStore, SLOTS_KEY, SNAPSHOT_INTERVAL } from './slots';
+import { createMemoryStorage } from './storage';
+import type { GameState } from './types';
+
+const farm = (money: number): GameState => {
+  const state = createInitialState(0, 'TEST');
+  return { ...state, gameStats: { ...state.gameStats, money } };
+};
+
+const moneyIn = (data: string | null) => data === null ? null : readSave(data).state.gameStats.money;
+
+describe('createSlotStore', () => {
+  it('creates slots with a summary of their farm', async () => {
+    const store = createSlotStore(createMemoryStorage());
+    const slot = await store.createSlot('Ферма', farm(700));
+    expect(slot).toMatchObject({ name: 'Ферма', summary: { money: 700, harvested: 0 } });
+    expect(await store.listSlots()).toEqual([slot]);
+    expect(moneyIn(await store.readSlot(slot.id))).toBe(700);
+  });
+
+  it('duplicates a slot under a new id', async () => {
+    const store = createSlotStore(createMemoryStorage());
+    const slot = await store.createSlot('Ферма', farm(700));
+    const copy = await store.duplicateSlot(slot.id);
+    expect(copy).toMatchObject({ name: 'Ферма (копия)', summary: slot.summary });
+    expect(copy!.id).not.toBe(slot.id);
+    expect(await store.readSlot(copy!.id)).toBe(await store.readSlot(slot.id));
+    expect(await store.duplicateSlot('missing')).toBeNull();
+  });
+
+  it('deletes a slot with its snapshots and moves the active slot on', async () => {
+    const store = createSlotStore(createMemoryStorage());
+    const first = await store.createSlot('Первая', farm(100));
+    const second = await store.createSlot('Вторая', farm(200));
+    await store.writeSlot(first.id, farm(150), 0);
+    await store.setActiveSlot(first.id);
+    await store.deleteSlot(first.id);
+    expect(await store.listSlots()).toEqual([second]);
+    expect(await store.getActiveSlotId()).toBe(second.id);
+    expect(await store.readSlot(first.id)).toBeNull();
+    expect(await store.listSnapshots(first.id)).toEqual([]);
+  });
+
+  it('keeps a snapshot every interval, newest first, up to the limit', async () => {
+    const store = createSlotStore(createMemoryStorage());
+    const slot = await store.createSlot('Ферма', farm(0));
+    for (let i = 0; i <= AUTOSAVE_SNAPSHOTS; i++) {
+      await store.writeSlot(slot.id, farm(i), i * SNAPSHOT_INTERVAL);
+      await store.writeSlot(slot.id, farm(i), i * SNAPSHOT_INTERVAL + 1000); // Too soon for another snapshot
+    }
+    const snapshots = await store.listSnapshots(slot.id);
+    expect(snapshots.map(snapshot => snapshot.savedAt)).toEqual([5, 4, 3, 2, 1].map(i => i * SNAPSHOT_INTERVAL));
+    expect(snapshots.map(snapshot => moneyIn(snapshot.data))).toEqual([5, 4, 3, 2, 1]);
+    expect((await store.listSlots())[0]).toMatchObject({ lastPlayedAt: AUTOSAVE_SNAPSHOTS * SNAPSHOT_INTERVAL + 1000 });
+  });
+
+  it('rolls a slot back to a snapshot', async () => {
+    const store = createSlotStore(createMemoryStorage());
+    const slot = await store.createSlot('Ферма', farm(0));
+    await store.writeSlot(slot.id, farm(300), 0);
+    await store.writeSlot(slot.id, farm(50), SNAPSHOT_INTERVAL);
+    expect(await store.restoreSnapshot(slot.id, 0, 2 * SNAPSHOT_INTERVAL)).toBe(true);
+    expect(moneyIn(await store.readSlot(slot.id))).toBe(300);
+    // Saved as of the restore, so loading it has no offline time to catch up on
+    expect(readSave((await store.readSlot(slot.id))!).savedAt).toBe(2 * SNAPSHOT_INTERVAL);
+    expect(await store.restoreSnapshot(slot.id, 1)).toBe(false);
+  });
+
+  it('repairs a damaged index and keeps the original', async () => {
+    const storage = createMemoryStorage();
+    const store = createSlotStore(storage);
+    const slot = await store.createSlot('Ферма', farm(0));
+    const damaged = JSON.stringify({ activeId: 'gone', slots: [slot, { id: 1 }] });
+    await storage.set(SLOTS_KEY, damaged);
+    expect(await store.listSlots()).toEqual([slot]);
+    expect(await store.getActiveSlotId()).toBe(slot.id);
+    expect(await storage.get(BROKEN_INDEX_KEY)).toBe(damaged);
+  });
+
+  it('turns the save from before slots into the first slot', async () => {
+    const legacy = serializeSave(farm(900), 0);
+    const storage = createMemoryStorage({ [SAVE_KEY]: legacy });
+    const store = createSlotStore(storage);
+    const [slot] = await store.listSlots();
+    expect(slot).toMatchObject({ name: 'Основная ферма', summary: null });
+    expect(await store.getActiveSlotId()).toBe(slot.id);
+    expect(await store.readSlot(slot.id)).toBe(legacy);
+    expect(await storage.get(SAVE_KEY)).toBeNull();
+  });
+});
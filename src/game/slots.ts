@@ -0,0 +1,205 @@
+import { z } from 'zod';
+import { getGameDay } from './engine';
+import { SAVE_KEY, serializeSave } from './save';
+import { createBrowserStorage, type StorageAdapter } from './storage';
+import type { GameState } from './types';
+
+// Named save slots: an index of slot metadata plus one key per slot for the game and one for its
+// rotating autosave snapshots. Slot data is kept raw so a broken save can still be recovered.
+export const SLOTS_KEY = 'weedgroove-slots';
+export const BROKEN_INDEX_KEY = `${SLOTS_KEY}-broken`;
+export const AUTOSAVE_SNAPSHOTS = 5; // Snapshots kept per slot
+export const SNAPSHOT_INTERVAL = 5 * 60 * 1000; // Real ms between snapshots
+export const AUTOSAVE_DELAY = 5000; // Real ms a state change may wait before it is written
+
+export interface SaveSlotSummary {
+  money: number;
+  day: number;
+  harvested: number;
+}
+
+export interface SaveSlot {
+  id: string;
+  name: string;
+  createdAt: number;
+  lastPlayedAt: number;
+  summary: SaveSlotSummary | null; // Null until the slot is first saved by this version
+}
+
+export interface SlotSnapshot {
+  savedAt: number;
+  data: string;
+}
+
+interface SlotIndex {
+  activeId: string | null;
+  slots: SaveSlot[];
+}
+
+const slotSchema: z.ZodType<SaveSlot> = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.number(),
+  lastPlayedAt: z.number(),
+  summary: z.object({ money: z.number(), day: z.number(), harvested: z.number() }).nullable()
+});
+
+const slotIndexSchema: z.ZodType<SlotIndex> = z.object({ activeId: z.string().nullable(), slots: z.array(slotSchema) });
+
+const snapshotSchema: z.ZodType<SlotSnapshot> = z.object({ savedAt: z.number(), data: z.string() });
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+// Entries of a stored list that still match their schema; anything else is dropped
+const validEntries = <T>(schema: z.ZodType<T>, list: unknown): T[] =>
+  (Array.isArray(list) ? list : []).flatMap(entry => {
+    const result = schema.safeParse(entry);
+    return result.success ? [result.data] : [];
+  });
+
+// What can be saved of a damaged index: the slots that still read, and the active one if it is among them
+const repairIndex = (data: unknown): SlotIndex => {
+  const raw = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  const slots = validEntries(slotSchema, raw.slots);
+  const active = slots.find(slot => slot.id === raw.activeId) ?? slots[0];
+  return { activeId: active?.id ?? null, slots };
+};
+
+// Move a save envelope's savedAt; anything that is not an envelope is kept as it is
+const restamp = (data: string, savedAt: number): string => {
+  const envelope = parseJson(data);
+  if (typeof envelope !== 'object' || envelope === null || Array.isArray(envelope) || !('savedAt' in envelope)) return data;
+  return JSON.stringify({ ...envelope, savedAt });
+};
+
+const slotKey = (id: string) => `weedgroove-slot-${id}`;
+const snapshotsKey = (id: string) => `${slotKey(id)}-snapshots`;
+
+const summarize = (state: GameState): SaveSlotSummary => ({
+  money: state.gameStats.money,
+  day: getGameDay(state),
+  harvested: state.gameStats.totalHarvested
+});
+
+export const createSlotStore = (storage: StorageAdapter) => {
+  // Every operation reads and rewrites the index, so they run one at a time
+  let queue: Promise<unknown> = Promise.resolve();
+  const exclusive = <A extends unknown[], T>(operation: (...args: A) => Promise<T>) => (...args: A): Promise<T> => {
+    const result = queue.then(() => operation(...args));
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const writeIndex = (index: SlotIndex) => storage.set(SLOTS_KEY, JSON.stringify(index));
+
+  const addSlot = async (index: SlotIndex, name: string, data: string, summary: SaveSlotSummary | null) => {
+    const now = Date.now();
+    const slot: SaveSlot = { id: crypto.randomUUID(), name, createdAt: now, lastPlayedAt: now, summary };
+    await storage.set(slotKey(slot.id), data);
+    index.slots.push(slot);
+    return slot;
+  };
+
+  // The single save from before slots becomes the first slot. A damaged index is repaired, with the
+  // original kept under its own key for manual recovery.
+  const readIndex = async (): Promise<SlotIndex> => {
+    const stored = await storage.get(SLOTS_KEY);
+    if (stored) {
+      const data = parseJson(stored);
+      const parsed = slotIndexSchema.safeParse(data);
+      if (parsed.success) return parsed.data;
+      console.error('Repairing damaged save slot index:', parsed.error.issues);
+      const repaired = repairIndex(data);
+      await storage.set(BROKEN_INDEX_KEY, stored);
+      await writeIndex(repaired);
+      return repaired;
+    }
+    const index: SlotIndex = { activeId: null, slots: [] };
+    const legacy = await storage.get(SAVE_KEY);
+    if (legacy) {
+      const slot = await addSlot(index, 'Основная ферма', legacy, null);
+      index.activeId = slot.id;
+      await storage.remove(SAVE_KEY);
+    }
+    await writeIndex(index);
+    return index;
+  };
+
+  const updateSlot = async (id: string, update: (slot: SaveSlot) => SaveSlot) => {
+    const index = await readIndex();
+    await writeIndex({ ...index, slots: index.slots.map(slot => slot.id === id ? update(slot) : slot) });
+  };
+
+  const readSnapshots = async (id: string): Promise<SlotSnapshot[]> =>
+    validEntries(snapshotSchema, parseJson(await storage.get(snapshotsKey(id)) || '[]'));
+
+  return {
+    listSlots: exclusive(async () => (await readIndex()).slots),
+
+    getActiveSlotId: exclusive(async () => (await readIndex()).activeId),
+
+    setActiveSlot: exclusive(async (id: string) => writeIndex({ ...await readIndex(), activeId: id })),
+
+    readSlot: exclusive((id: string) => storage.get(slotKey(id))),
+
+    createSlot: exclusive(async (name: string, state: GameState) => {
+      const index = await readIndex();
+      const slot = await addSlot(index, name, serializeSave(state), summarize(state));
+      await writeIndex(index);
+      return slot;
+    }),
+
+    duplicateSlot: exclusive(async (id: string) => {
+      const index = await readIndex();
+      const source = index.slots.find(slot => slot.id === id);
+      const data = await storage.get(slotKey(id));
+      if (!source || data === null) return null;
+      const copy = await addSlot(index, `${source.name} (копия)`, data, source.summary);
+      await writeIndex(index);
+      return copy;
+    }),
+
+    renameSlot: exclusive((id: string, name: string) => updateSlot(id, slot => ({ ...slot, name }))),
+
+    deleteSlot: exclusive(async (id: string) => {
+      const index = await readIndex();
+      const slots = index.slots.filter(slot => slot.id !== id);
+      await storage.remove(slotKey(id));
+      await storage.remove(snapshotsKey(id));
+      await writeIndex({ slots, activeId: index.activeId === id ? slots[0]?.id ?? null : index.activeId });
+    }),
+
+    listSnapshots: exclusive(readSnapshots),
+
+    // Autosave: overwrite the slot and, every SNAPSHOT_INTERVAL, push a copy onto its snapshot ring
+    writeSlot: exclusive(async (id: string, state: GameState, now: number = Date.now()) => {
+      const data = serializeSave(state, now);
+      await storage.set(slotKey(id), data);
+      const snapshots = await readSnapshots(id);
+      if (snapshots.length === 0 || now - snapshots[0].savedAt >= SNAPSHOT_INTERVAL) {
+        const rotated = [{ savedAt: now, data }, ...snapshots].slice(0, AUTOSAVE_SNAPSHOTS);
+        await storage.set(snapshotsKey(id), JSON.stringify(rotated));
+      }
+      await updateSlot(id, slot => ({ ...slot, lastPlayedAt: now, summary: summarize(state) }));
+    }),
+
+    // Roll a slot back to one of its snapshots; the summary refreshes on the next autosave. The restored
+    // save is stamped as saved now, or loading it would catch up on the time since the snapshot was taken.
+    restoreSnapshot: exclusive(async (id: string, savedAt: number, now: number = Date.now()) => {
+      const snapshot = (await readSnapshots(id)).find(item => item.savedAt === savedAt);
+      if (!snapshot) return false;
+      await storage.set(slotKey(id), restamp(snapshot.data, now));
+      return true;
+    })
+  };
+};
+
+export type SlotStore = ReturnType<typeof createSlotStore>;
+
+export const slotStore = createSlotStore(createBrowserStorage());
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createDebouncedWriter } from './storage';
+
+describe('createDebouncedWriter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('writes only the latest value once the delay has passed', async () => {
+    const write = vi.fn(async (_value: number) => {});
+    const writer = createDebouncedWriter(write, 1000);
+    writer.schedule(1);
+    writer.schedule(2);
+    await vi.advanceTimersByTimeAsync(999);
+    writer.schedule(3);
+    expect(write).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(write.mock.calls).toEqual([[3]]);
+  });
+
+  it('writes a pending value on flush, and nothing when none is pending', async () => {
+    const write = vi.fn(async (_value: number) => {});
+    const writer = createDebouncedWriter(write, 1000);
+    writer.schedule(1);
+    await writer.flush();
+    expect(write.mock.calls).toEqual([[1]]);
+    await writer.flush();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps writing after a failed write', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const write = vi.fn(async (value: number) => {
+      if (value === 1) throw new Error('quota');
+    });
+    const writer = createDebouncedWriter(write, 1000);
+    writer.schedule(1);
+    await writer.flush();
+    writer.schedule(2);
+    await writer.flush();
+    expect(write.mock.calls).toEqual([[1], [2]]);
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,95 @@
+// Key-value persistence behind the save slots. IndexedDB in the browser, localStorage where IndexedDB
+// is unavailable, and an in-memory map for tests and scratch runs.
+export interface StorageAdapter {
+  get: (key: string) => Promise<string | null>;
+  set: (key: string, value: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+const DB_NAME = 'weedgroove';
+const STORE_NAME = 'saves';
+const KEY_PREFIX = 'weedgroove-';
+
+export const createMemoryStorage = (initial: Record<string, string> = {}): StorageAdapter => {
+  const data = new Map(Object.entries(initial));
+  return {
+    get: async key => data.get(key) ?? null,
+    set: async (key, value) => { data.set(key, value); },
+    remove: async key => { data.delete(key); }
+  };
+};
+
+export const createLocalStorage = (): StorageAdapter => ({
+  get: async key => localStorage.getItem(key),
+  set: async (key, value) => localStorage.setItem(key, value),
+  remove: async key => localStorage.removeItem(key)
+});
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, 1);
+  req.onupgradeneeded = () => req.result.createObjectStore(STORE_NAME);
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+// Saves written before IndexedDB move over on first open and are then dropped from localStorage
+const importLocalStorage = async (db: IDBDatabase) => {
+  const keys = Object.keys(localStorage).filter(key => key.startsWith(KEY_PREFIX));
+  if (keys.length === 0) return;
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  await Promise.all(keys.map(async key => {
+    if (await request(store.getKey(key)) === undefined) store.put(localStorage.getItem(key), key);
+  }));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  keys.forEach(key => localStorage.removeItem(key));
+};
+
+export const createIndexedDbStorage = (): StorageAdapter => {
+  const db = openDatabase().then(async database => {
+    await importLocalStorage(database);
+    return database;
+  });
+  const store = async (mode: IDBTransactionMode) => (await db).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  return {
+    get: async key => (await request((await store('readonly')).get(key))) ?? null,
+    set: async (key, value) => { await request((await store('readwrite')).put(value, key)); },
+    remove: async key => { await request((await store('readwrite')).delete(key)); }
+  };
+};
+
+export const createBrowserStorage = (): StorageAdapter =>
+  typeof indexedDB === 'undefined' ? createLocalStorage() : createIndexedDbStorage();
+
+// Coalesces frequent writes: only the latest value is written, at most once per delay; flush writes now
+export const createDebouncedWriter = <T>(write: (value: T) => Promise<void>, delay: number) => {
+  let latest: { value: T } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (latest) {
+      const { value } = latest;
+      latest = null;
+      writing = writing.then(() => write(value)).catch(error => console.error('Save failed:', error));
+    }
+    return writing;
+  };
+
+  const schedule = (value: T) => {
+    latest = { value };
+    if (!timer) timer = setTimeout(flush, delay);
+  };
+
+  return { schedule, flush };
+};
@@ -0,0 +1,69 @@
+import { getTraitRange, GenotypeError, parseGenetics } from './genetics';
+import { TRAITS } from './traits';
+import type { StoreStrain } from './types';
+
+// Reject catalog entries whose genotypes or advertised traits don't match the locus alphabet
+const validateStrain = (strain: StoreStrain): StoreStrain => {
+  const genetics = parseGenetics(strain.genetics);
+  for (const trait of TRAITS) {
+    const [min, max] = getTraitRange(trait, genetics);
+    if (strain.traits[trait.id] < min || strain.traits[trait.id] > max) {
+      throw new GenotypeError(`${strain.name}: ${trait.id} ${strain.traits[trait.id]} is outside its genotype range ${min}-${max}`);
+    }
+  }
+  return { ...strain, genetics };
+};
+
+// Store strains with fixed genetics
+const catalog: StoreStrain[] = [
+  {
+    id: 'og-kush',
+    name: 'OG Kush',
+    price: 100,
+    genetics: { A: 'Aa', B: 'BB', C: 'CC', R: 'rr' },
+    traits: { yield: 6, speed: 9, potency: 9, resistance: 3 },
+    description: 'Классический сорт с высокой крепостью'
+  },
+  {
+    id: 'lemon-haze',
+    name: 'Lemon Haze',
+    price: 120,
+    genetics: { A: 'AA', B: 'Bb', C: 'Cc', R: 'rr' },
+    traits: { yield: 8, speed: 6, potency: 5, resistance: 3 },
+    description: 'Высокая урожайность, цитрусовый аромат'
+  },
+  {
+    id: 'northern-lights',
+    name: 'Northern Lights',
+    price: 80,
+    genetics: { A: 'aa', B: 'BB', C: 'Cc', R: 'RR' },
+    traits: { yield: 4, speed: 10, potency: 7, resistance: 10 },
+    description: 'Быстрорастущий, устойчивый сорт'
+  },
+  {
+    id: 'white-widow',
+    name: 'White Widow',
+    price: 150,
+    genetics: { A: 'AA', B: 'Bb', C: 'CC', R: 'Rr' },
+    traits: { yield: 9, speed: 5, potency: 8, resistance: 9 },
+    description: 'Премиум сорт с отличным балансом'
+  },
+  {
+    id: 'blue-dream',
+    name: 'Blue Dream',
+    price: 90,
+    genetics: { A: 'Aa', B: 'Bb', C: 'cc', R: 'Rr' },
+    traits: { yield: 7, speed: 6, potency: 4, resistance: 9 },
+    description: 'Сбалансированный гибрид для новичков'
+  },
+  {
+    id: 'gorilla-glue',
+    name: 'Gorilla Glue',
+    price: 200,
+    genetics: { A: 'AA', B: 'bb', C: 'CC', R: 'rr' },
+    traits: { yield: 10, speed: 3, potency: 10, resistance: 3 },
+    description: 'Максимальная урожайность и крепость'
+  }
+];
+
+export const storeStrains: StoreStrain[] = catalog.map(validateStrain);
@@ -0,0 +1,4 @@
+// Game time units in game milliseconds. A module of its own, so anything the engine imports can use them
+// without importing the engine back.
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
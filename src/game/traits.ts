@@ -0,0 +1,35 @@
+// How a trait's genotype turns into a phenotype:
+// - complete: one dominant allele per locus is enough (Aa behaves like AA)
+// - incomplete: each dominant allele moves the trait one bracket up (Aa sits between AA and aa)
+// - codominant: a heterozygous locus expresses both alleles, so Aa spans both homozygous phenotypes
+// - polygenic: dominant alleles over all loci add up to a near-continuous value
+export type DominanceRule = 'complete' | 'incomplete' | 'codominant' | 'polygenic';
+
+export const DOMINANCE_LABELS: Record<DominanceRule, string> = {
+  complete: 'Полное доминирование',
+  incomplete: 'Неполное доминирование',
+  codominant: 'Кодоминирование',
+  polygenic: 'Полигенный'
+};
+
+export interface TraitDefinition {
+  id: string;
+  label: string;
+  icon: string;
+  loci: readonly string[]; // Locus letters, uppercase; each locus holds two alleles
+  dominance: DominanceRule;
+  range: readonly [number, number]; // Phenotype range from all-recessive to all-dominant
+}
+
+// Trait registry: adding a trait means adding a definition here (and its loci to the store catalog)
+export const TRAITS = [
+  { id: 'yield', label: 'Урожай', icon: '🌾', loci: ['A'], dominance: 'incomplete', range: [2, 10] },
+  { id: 'speed', label: 'Скорость', icon: '⏱️', loci: ['B'], dominance: 'incomplete', range: [2, 10] },
+  { id: 'potency', label: 'Крепость', icon: '💨', loci: ['C'], dominance: 'incomplete', range: [2, 10] },
+  { id: 'resistance', label: 'Устойчивость', icon: '🛡️', loci: ['R'], dominance: 'complete', range: [2, 10] }
+] as const satisfies readonly TraitDefinition[];
+
+export type TraitId = (typeof TRAITS)[number]['id'];
+export type Locus = (typeof TRAITS)[number]['loci'][number];
+
+export const LOCI: Locus[] = TRAITS.flatMap(trait => [...trait.loci]);
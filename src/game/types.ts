@@ -0,0 +1,235 @@
+import type { RngState } from './random';
+import type { Locus, TraitId } from './traits';
+
+// Plant genetics system: two alleles per locus, dominant allele written first
+export type Allele<L extends string> = Uppercase<L> | Lowercase<L>;
+export type Genotype<L extends string> =
+  | `${Uppercase<L>}${Uppercase<L>}`
+  | `${Uppercase<L>}${Lowercase<L>}`
+  | `${Lowercase<L>}${Lowercase<L>}`;
+
+// Genome keyed by locus letter ({ A: 'Aa', B: 'BB', ... }) and phenotype keyed by trait id
+export type PlantGenetics = { [L in Locus]: Genotype<L> };
+export type PlantTraits = Record<TraitId, number>;
+
+// What the player knows about a strain: nothing, lab estimates of its traits, or its exact genotype
+export type KnowledgeLevel = 'none' | 'estimate' | 'genotype';
+
+// Basic lab reading of a trait with its confidence interval
+export interface TraitEstimate {
+  value: number;
+  low: number;
+  high: number;
+}
+
+export type TraitEstimates = Record<TraitId, TraitEstimate>;
+
+// Breeding generation: P (store parent line), Fn (filial), BCn (backcross), Sn (selfed), '?' (origin unknown)
+export type Generation = 'P' | `F${number}` | `BC${number}` | `S${number}` | '?';
+
+export type LineageOrigin = 'store' | 'cross' | 'backcross' | 'selfing' | 'unknown';
+
+// Where an item came from; copied from seed to plant to bud to seed
+export interface Lineage {
+  strainId: string; // Pedigree record of this strain
+  parentIds: string[]; // Parent strain ids, empty for store strains
+  generation: Generation;
+  origin: LineageOrigin;
+  createdAt: number;
+}
+
+// Pedigree record kept after every item of a strain is used up, so any strain traces back to store ancestors
+export interface StrainRecord extends Lineage {
+  name: string;
+  genetics: PlantGenetics;
+  knowledge: KnowledgeLevel; // Best research done on any item of this strain
+}
+
+export type PlantStage = 'seed' | 'sprout' | 'vegetative' | 'flowering' | 'harvest';
+
+// Climate the player sets for a grow room
+export interface RoomEnvironment {
+  light: number; // Intensity, %
+  photoperiod: number; // Hours of light per day
+  temperature: number; // °C
+  humidity: number; // Relative, %
+}
+
+// Grow room or tent with a fixed number of pots
+export interface GrowRoom {
+  id: string;
+  name: string;
+  pots: number;
+  environment: RoomEnvironment;
+}
+
+// Soil nutrient levels: nitrogen drives leafy growth, phosphorus and potassium drive flowering
+export interface Nutrients {
+  n: number;
+  p: number;
+  k: number;
+}
+
+export type PestId = 'mites' | 'mold' | 'rootRot';
+
+// What drove a plant's health to zero: a pest, or shortages of water and nutrients
+export type DeathCause = PestId | 'neglect';
+
+// Pest or disease on a plant; severity grows every tick until treated
+export interface Infection {
+  pest: PestId;
+  severity: number; // 0..100
+  since: number; // Game time
+}
+
+export interface Plant {
+  id: string;
+  roomId: string;
+  name: string;
+  stage: PlantStage;
+  progress: number;
+  stress: number; // Average environment stress over the plant's life, 0..1
+  water: number; // 0..100, drops every tick while the plant grows
+  nutrients: Nutrients; // 0..100 each, used up at the rate the current stage needs
+  health: number; // 0..100; the plant dies at 0
+  infection: Infection | null;
+  genetics: PlantGenetics;
+  traits: PlantTraits;
+  lineage: Lineage;
+  plantedAt: number;
+}
+
+// Buds - harvested weed with unknown traits until researched
+export interface BudItem {
+  id: string;
+  name: string;
+  quantity: number;
+  genetics: PlantGenetics; // Hidden from player
+  traits: PlantTraits; // Hidden from player
+  knowledge: KnowledgeLevel; // How much research revealed
+  estimates: TraitEstimates | null; // Basic lab readings
+  lineage: Lineage;
+  harvestedAt: number;
+  grade: QualityGrade; // Set by drying and curing, scales the sell price
+}
+
+export type QualityGrade = 'S' | 'A' | 'B' | 'C' | 'D';
+
+export type BatchStage = 'drying' | 'curing';
+
+// Harvested material between the plant and the inventory: it dries on a rack, then cures in a jar
+export interface HarvestBatch {
+  id: string;
+  name: string;
+  quantity: number;
+  genetics: PlantGenetics;
+  traits: PlantTraits;
+  lineage: Lineage;
+  harvestedAt: number;
+  quality: number; // 0..100 at harvest; curing moves it from here
+  stage: BatchStage;
+  stageStartedAt: number;
+}
+
+// Seeds with known or unknown genetics
+export interface SeedItem {
+  id: string;
+  name: string;
+  quantity: number;
+  genetics: PlantGenetics;
+  traits: PlantTraits;
+  knowledge: KnowledgeLevel; // Store seeds and premium research show the genotype
+  estimates: TraitEstimates | null;
+  lineage: Lineage;
+  createdAt: number;
+}
+
+// Store strains with fixed characteristics
+export interface StoreStrain {
+  id: string; // Stable pedigree id of the store line
+  name: string;
+  price: number;
+  genetics: PlantGenetics;
+  traits: PlantTraits;
+  description: string;
+}
+
+export interface GameStats {
+  money: number;
+  totalHarvested: number;
+  bestYield: number;
+  bestPotency: number;
+  experimentsCount: number;
+  crossbreedingAttempts: number;
+}
+
+export type LabType = 'cheap' | 'premium';
+
+export type SupplyId = 'water' | 'grow' | 'bloom';
+
+// Research order; waits in the queue (startedAt null) until a lab slot frees up
+export interface LabJob {
+  id: string;
+  budId: string;
+  labType: LabType;
+  cost: number;
+  duration: number; // Game ms
+  queuedAt: number;
+  startedAt: number | null;
+}
+
+// One-off message for the player, shown once and then dismissed
+export interface GameNotification {
+  id: string;
+  message: string;
+  createdAt: number;
+}
+
+// Farm journal entry: what happened, to which strain, at what game time. Item ids point at the stack the
+// event produced, for jumping to it while it still exists.
+interface JournalEventBase {
+  at: number;
+  strainId: string;
+  name: string;
+}
+
+export type JournalEvent = JournalEventBase & (
+  | { type: 'buy'; seedId: string; price: number }
+  | { type: 'plant'; plantId: string }
+  | { type: 'death'; plantId: string; cause: DeathCause }
+  | { type: 'infection'; plantId: string; pest: PestId; spread: boolean }
+  | { type: 'harvest'; batchId: string | null; quantity: number } // No batch for harvests from before drying
+  | { type: 'pack'; budId: string; quantity: number; grade: QualityGrade }
+  | { type: 'sell'; quantity: number; income: number }
+  | { type: 'convert'; seedId: string; quantity: number }
+  | { type: 'cross'; seedId: string; parentIds: string[] }
+  | { type: 'mutation'; seedId: string; locus: Locus; from: string; to: string }
+  | { type: 'research'; budId: string; labType: LabType; knowledge: KnowledgeLevel }
+);
+
+export type JournalEventType = JournalEvent['type'];
+
+// Player preferences saved with the farm
+export interface GameSettings {
+  offlineCapHours: number; // Most game time simulated for a closed tab; 0 turns catch-up off
+}
+
+// Everything the simulation needs to advance; the page only renders this
+export interface GameState {
+  rooms: GrowRoom[];
+  plants: Plant[];
+  buds: BudItem[];
+  seeds: SeedItem[];
+  batches: HarvestBatch[];
+  supplies: Record<SupplyId, number>; // Doses in stock
+  gameStats: GameStats;
+  startedAt: number; // Game time the farm was founded at
+  gameTime: number;
+  rng: RngState;
+  nextId: number; // Entity id counter, see ids.ts
+  pedigree: Record<string, StrainRecord>;
+  labJobs: LabJob[];
+  notifications: GameNotification[];
+  journal: JournalEvent[]; // Append-only, oldest first
+  settings: GameSettings;
+}
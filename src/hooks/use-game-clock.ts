@@ -0,0 +1,27 @@
+import { useEffect, type Dispatch } from 'react';
+import { TICK_REAL_MS, type GameAction } from '@/game/engine';
+
+export const GAME_SPEEDS = [1, 2, 5, 10];
+
+const FRAME_MS = 100;
+const MAX_TICKS_PER_FRAME = 60; // A throttled background tab drops time beyond this instead of freezing on return
+
+// Fixed-timestep clock: real time scaled by speed accumulates and is spent in whole ticks, batched
+// into one dispatch per frame
+export function useGameClock(dispatch: Dispatch<GameAction>, speed: number, running: boolean) {
+  useEffect(() => {
+    if (!running) return;
+    let last = performance.now();
+    let carry = 0;
+    const interval = setInterval(() => {
+      const now = performance.now();
+      carry += (now - last) * speed;
+      last = now;
+      const ticks = Math.floor(carry / TICK_REAL_MS);
+      if (ticks === 0) return;
+      carry -= ticks * TICK_REAL_MS;
+      dispatch({ type: 'tick', ticks: Math.min(ticks, MAX_TICKS_PER_FRAME) });
+    }, FRAME_MS);
+    return () => clearInterval(interval);
+  }, [dispatch, speed, running]);
+}
@@ -0,0 +1,9 @@
+// Offer text to the browser as a file download
+export const downloadText = (text: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
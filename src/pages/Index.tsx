@@ -1,428 +1,228 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect, useReducer } from 'react';
+import { Link } from 'react-router-dom';
+import { toast } from 'sonner';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
 import Icon from '@/components/ui/icon';
-
-// Plant genetics system
-interface PlantGenetics {
-  yield: string; // AA, Aa, aa
-  speed: string; // BB, Bb, bb  
-  potency: string; // CC, Cc, cc
-}
-
-interface Plant {
-  id: string;
-  name: string;
-  stage: 'seed' | 'sprout' | 'vegetative' | 'flowering' | 'harvest';
-  progress: number;
-  genetics: PlantGenetics;
-  traits: {
-    yield: number; // 1-10
-    speed: number; // 1-10
-    potency: number; // 1-10
-  };
-  plantedAt: number;
-}
-
-// Buds - harvested weed with unknown traits until researched
-interface BudItem {
-  id: string;
-  name: string;
-  quantity: number;
-  genetics: PlantGenetics; // Hidden from player
-  traits: {
-    yield: number;
-    speed: number;
-    potency: number;
-  }; // Hidden from player
-  isResearched: boolean; // Whether traits are known
-  harvestedAt: number;
-}
-
-// Seeds with known or unknown genetics
-interface SeedItem {
-  id: string;
-  name: string;
-  quantity: number;
-  genetics: PlantGenetics;
-  traits: {
-    yield: number;
-    speed: number;
-    potency: number;
-  };
-  isKnownGenetics: boolean; // Whether genetics are visible to player
-  createdAt: number;
-}
-
-// Store strains with fixed characteristics
-interface StoreStrain {
-  name: string;
-  price: number;
-  genetics: PlantGenetics;
-  traits: {
-    yield: number;
-    speed: number;
-    potency: number;
-  };
-  description: string;
-}
-
-interface GameStats {
-  money: number;
-  totalHarvested: number;
-  bestYield: number;
-  bestPotency: number;
-  experimentsCount: number;
-  crossbreedingAttempts: number;
-}
+import { KnowledgeView, TraitBars, TraitGrid, TraitList } from '@/components/game/TraitDisplay';
+import PunnettPanel from '@/components/game/PunnettPanel';
+import LineageInfo from '@/components/game/LineageInfo';
+import PedigreeDialog from '@/components/game/PedigreeDialog';
+import LabQueue from '@/components/game/LabQueue';
+import SaveRecovery from '@/components/game/SaveRecovery';
+import OfflineSummary from '@/components/game/OfflineSummary';
+import ClockControls from '@/components/game/ClockControls';
+import HistoryPanel from '@/components/game/HistoryPanel';
+import JournalView from '@/components/game/JournalView';
+import RoomEnvironmentPanel from '@/components/game/RoomEnvironmentPanel';
+import PlantCare from '@/components/game/PlantCare';
+import SupplyShelf from '@/components/game/SupplyShelf';
+import CuringView from '@/components/game/CuringView';
+import { createInitialState, getBudPrice, getCalendar, getHarvestYield, SEED_CONVERSION_COST } from '@/game/engine';
+import type { EnvironmentFactor } from '@/game/environment';
+import { canResearch, ESTIMATE_MARGIN, getBudJob, KNOWLEDGE_ICONS, KNOWLEDGE_LABELS, LAB_COSTS, LAB_DURATIONS } from '@/game/lab';
+import { generateHybridName, getOffspringRange, MUTATION_RATE } from '@/game/genetics';
+import { createHistory, historyReducer } from '@/game/history';
+import { catchUpOffline, OFFLINE_CAP_OPTIONS, type OfflineReport } from '@/game/offline';
+import { readSave, SaveError } from '@/game/save';
+import { AUTOSAVE_DELAY, slotStore } from '@/game/slots';
+import { createDebouncedWriter } from '@/game/storage';
+import { useGameClock } from '@/hooks/use-game-clock';
+import { storeStrains } from '@/game/strains';
+import { getCareWarnings } from '@/game/care';
+import { getFreeRacks, QUALITY_GRADES } from '@/game/curing';
+import { findFreeRoom, getPotPrice, getRoomPlants, getRoomPrice, STARTER_POTS } from '@/game/rooms';
+import { DOMINANCE_LABELS, TRAITS } from '@/game/traits';
+import type { GameState, SeedItem, SupplyId } from '@/game/types';
 
 const WeedGroove = () => {
-  const [plants, setPlants] = useState<Plant[]>([]);
-  const [buds, setBuds] = useState<BudItem[]>([]);
-  const [seeds, setSeeds] = useState<SeedItem[]>([]);
-  const [gameStats, setGameStats] = useState<GameStats>({
-    money: 1000,
-    totalHarvested: 0,
-    bestYield: 0,
-    bestPotency: 0,
-    experimentsCount: 0,
-    crossbreedingAttempts: 0
-  });
+  const [history, dispatch] = useReducer(historyReducer, undefined, () => createHistory(createInitialState()));
+  const state = history.present;
+  const { rooms, buds, seeds, gameStats } = state;
+  const freeRoom = findFreeRoom(state);
+  const freeRacks = getFreeRacks(state);
+  const needCare = state.plants.filter(plant => plant.infection || getCareWarnings(plant).length > 0).length;
   const [selectedTab, setSelectedTab] = useState('farm');
   const [inventoryTab, setInventoryTab] = useState('buds');
-  const [gameTime, setGameTime] = useState(Date.now());
   const [selectedSeed1, setSelectedSeed1] = useState<SeedItem | null>(null);
   const [selectedSeed2, setSelectedSeed2] = useState<SeedItem | null>(null);
-
-  // Store strains with fixed genetics
-  const storeStrains: StoreStrain[] = [
-    {
-      name: 'OG Kush',
-      price: 100,
-      genetics: { yield: 'Aa', speed: 'BB', potency: 'AA' },
-      traits: { yield: 6, speed: 9, potency: 9 },
-      description: 'Классический сорт с высокой крепостью'
-    },
-    {
-      name: 'Lemon Haze',
-      price: 120,
-      genetics: { yield: 'AA', speed: 'Aa', potency: 'Bb' },
-      traits: { yield: 8, speed: 6, potency: 5 },
-      description: 'Высокая урожайность, цитрусовый аромат'
-    },
-    {
-      name: 'Northern Lights',
-      price: 80,
-      genetics: { yield: 'Bb', speed: 'AA', potency: 'Aa' },
-      traits: { yield: 4, speed: 10, potency: 7 },
-      description: 'Быстрорастущий, устойчивый сорт'
-    },
-    {
-      name: 'White Widow',
-      price: 150,
-      genetics: { yield: 'AA', speed: 'Bb', potency: 'AA' },
-      traits: { yield: 9, speed: 5, potency: 8 },
-      description: 'Премиум сорт с отличным балансом'
-    },
-    {
-      name: 'Blue Dream',
-      price: 90,
-      genetics: { yield: 'Aa', speed: 'Aa', potency: 'Bb' },
-      traits: { yield: 7, speed: 6, potency: 4 },
-      description: 'Сбалансированный гибрид для новичков'
-    },
-    {
-      name: 'Gorilla Glue',
-      price: 200,
-      genetics: { yield: 'AA', speed: 'aa', potency: 'AA' },
-      traits: { yield: 10, speed: 3, potency: 10 },
-      description: 'Максимальная урожайность и крепость'
-    }
-  ];
-
-  // Load game state from localStorage
+  const [shareSeedInput, setShareSeedInput] = useState('');
+  // Autosave stays off until the stored game has been read, and while a broken save awaits recovery
+  const [saveStatus, setSaveStatus] = useState<'loading' | 'ready' | SaveError>('loading');
+  const [slotId, setSlotId] = useState<string | null>(null);
+  const [offlineReport, setOfflineReport] = useState<OfflineReport | null>(null);
+  const [speed, setSpeed] = useState(1);
+  const [paused, setPaused] = useState(false);
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  // State changes every tick; only the latest one is serialized, once per AUTOSAVE_DELAY
+  const [autosave] = useState(() => createDebouncedWriter<{ slotId: string; state: GameState }>(
+    ({ slotId, state }) => slotStore.writeSlot(slotId, state),
+    AUTOSAVE_DELAY
+  ));
+
+  // Load the active save slot, starting a fresh farm in a new slot if there is none.
+  // Any failure, including the storage itself, ends on the recovery screen rather than an endless load.
   useEffect(() => {
-    const savedGame = localStorage.getItem('weedgroove-save');
-    if (savedGame) {
-      const data = JSON.parse(savedGame);
-      setPlants(data.plants || []);
-      setBuds(data.buds || []);
-      setSeeds(data.seeds || []);
-      setGameStats(data.gameStats || gameStats);
-      setGameTime(data.gameTime || Date.now());
-    }
+    const load = async () => {
+      let savedGame = '';
+      try {
+        const activeId = await slotStore.getActiveSlotId();
+        savedGame = (activeId && await slotStore.readSlot(activeId)) || '';
+        if (!activeId || !savedGame) {
+          const fresh = createInitialState();
+          const slot = await slotStore.createSlot('Новая ферма', fresh);
+          await slotStore.setActiveSlot(slot.id);
+          dispatch({ type: 'load', state: fresh });
+          setSlotId(slot.id);
+          setSaveStatus('ready');
+          return;
+        }
+        setSlotId(activeId);
+        // Simulate the time the farm was closed, from the moment of its last save
+        const saved = readSave(savedGame);
+        const { state: caughtUp, report } = saved.savedAt === null
+          ? { state: saved.state, report: null }
+          : catchUpOffline(saved.state, Date.now() - saved.savedAt);
+        dispatch({ type: 'load', state: caughtUp });
+        setOfflineReport(report);
+        setSaveStatus('ready');
+      } catch (error) {
+        const saveError = error instanceof SaveError
+          ? error
+          : new SaveError(savedGame ? 'Не удалось запустить сохранённую ферму' : 'Хранилище сохранений недоступно', savedGame, [String(error)]);
+        console.error('Rejected saved game:', error, saveError.details);
+        setSaveStatus(saveError);
+      }
+    };
+    load();
   }, []);
 
   // Save game state
   useEffect(() => {
-    const gameData = {
-      plants,
-      buds,
-      seeds,
-      gameStats,
-      gameTime
-    };
-    localStorage.setItem('weedgroove-save', JSON.stringify(gameData));
-  }, [plants, buds, seeds, gameStats, gameTime]);
+    if (saveStatus !== 'ready' || !slotId) return;
+    autosave.schedule({ slotId, state });
+  }, [autosave, state, saveStatus, slotId]);
 
-  // Game time progression
+  // Write the pending save right away when the tab is hidden or closed, or the player leaves the farm
   useEffect(() => {
-    const interval = setInterval(() => {
-      setGameTime(prev => prev + 60000); // 1 minute per second
-      
-      setPlants(prev => prev.map(plant => {
-        const timePassed = (gameTime - plant.plantedAt) / 1000 / 60; // minutes
-        let newProgress = Math.min(100, (timePassed / (120 - plant.traits.speed * 10)) * 100);
-        
-        let newStage = plant.stage;
-        if (newProgress >= 80) newStage = 'harvest';
-        else if (newProgress >= 60) newStage = 'flowering';
-        else if (newProgress >= 30) newStage = 'vegetative';
-        else if (newProgress >= 10) newStage = 'sprout';
-        
-        return { ...plant, progress: newProgress, stage: newStage };
-      }));
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, [gameTime]);
-
-  // Generate hybrid name from parent names
-  const generateHybridName = (parent1: string, parent2: string): string => {
-    const words1 = parent1.toLowerCase().split(' ');
-    const words2 = parent2.toLowerCase().split(' ');
-    
-    // Take first word from parent1 and last word from parent2
-    const firstPart = words1[0];
-    const secondPart = words2[words2.length - 1];
-    
-    // Capitalize first letters
-    const hybridName = `${firstPart.charAt(0).toUpperCase() + firstPart.slice(1)} ${secondPart.charAt(0).toUpperCase() + secondPart.slice(1)}`;
-    
-    return hybridName;
-  };
+    const flushWhenHidden = () => {
+      if (document.visibilityState === 'hidden') autosave.flush();
+    };
+    const flush = () => { autosave.flush(); };
+    document.addEventListener('visibilitychange', flushWhenHidden);
+    window.addEventListener('beforeunload', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', flushWhenHidden);
+      window.removeEventListener('beforeunload', flush);
+      autosave.flush();
+    };
+  }, [autosave]);
 
-  // Calculate traits from genetics
-  const calculateTraits = (genetics: PlantGenetics) => ({
-    yield: genetics.yield === 'AA' ? 8 + Math.floor(Math.random() * 3) :
-           genetics.yield === 'Aa' ? 5 + Math.floor(Math.random() * 3) :
-           2 + Math.floor(Math.random() * 3),
-    speed: genetics.speed === 'BB' ? 8 + Math.floor(Math.random() * 3) :
-           genetics.speed === 'Bb' ? 5 + Math.floor(Math.random() * 3) :
-           2 + Math.floor(Math.random() * 3),
-    potency: genetics.potency === 'CC' ? 8 + Math.floor(Math.random() * 3) :
-             genetics.potency === 'Cc' ? 5 + Math.floor(Math.random() * 3) :
-             2 + Math.floor(Math.random() * 3)
-  });
-
-  // Get trait range from genetics
-  const getTraitRange = (gene: string) => {
-    switch (gene) {
-      case 'AA': case 'BB': case 'CC': return [8, 10];
-      case 'Aa': case 'Bb': case 'Cc': return [5, 7];
-      case 'aa': case 'bb': case 'cc': return [2, 4];
-      default: return [1, 10];
-    }
-  };
+  // Show finished lab jobs and other one-off messages
+  useEffect(() => {
+    if (state.notifications.length === 0) return;
+    state.notifications.forEach(notification => toast(notification.message));
+    dispatch({ type: 'dismissNotifications', ids: state.notifications.map(n => n.id) });
+  }, [state.notifications]);
 
-  // Crossbreed two seeds to create a new unknown strain
-  const crossbreedSeeds = () => {
-    if (!selectedSeed1 || !selectedSeed2 || selectedSeed1.quantity < 1 || selectedSeed2.quantity < 1) return;
+  // Game time progression; the clock waits for the save to load
+  useGameClock(dispatch, speed, !paused && saveStatus === 'ready');
 
-    // Create hybrid genetics
-    const hybridGenetics: PlantGenetics = {
-      yield: Math.random() < 0.5 ? selectedSeed1.genetics.yield : selectedSeed2.genetics.yield,
-      speed: Math.random() < 0.5 ? selectedSeed1.genetics.speed : selectedSeed2.genetics.speed,
-      potency: Math.random() < 0.5 ? selectedSeed1.genetics.potency : selectedSeed2.genetics.potency
+  // Ctrl+Z / Ctrl+Y (or Ctrl+Shift+Z) outside text fields
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) dispatch({ type: 'undo' });
+      else if (key === 'y' || (key === 'z' && e.shiftKey)) dispatch({ type: 'redo' });
+      else return;
+      e.preventDefault();
     };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
 
-    // Add some random mutation chance (10%)
-    if (Math.random() < 0.1) {
-      const mutations = ['AA', 'Aa', 'aa'];
-      hybridGenetics.yield = mutations[Math.floor(Math.random() * 3)];
-    }
-    if (Math.random() < 0.1) {
-      const mutations = ['BB', 'Bb', 'bb'];
-      hybridGenetics.speed = mutations[Math.floor(Math.random() * 3)];
-    }
-    if (Math.random() < 0.1) {
-      const mutations = ['CC', 'Cc', 'cc'];
-      hybridGenetics.potency = mutations[Math.floor(Math.random() * 3)];
+  // Bring a journal entry's item into view once its tab has rendered, then let the highlight fade
+  useEffect(() => {
+    if (!highlightId) return;
+    document.getElementById(`item-${highlightId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timeout = setTimeout(() => setHighlightId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightId]);
+
+  const jumpToItem = ({ kind, id }: { kind: 'plant' | 'batch' | 'bud' | 'seed'; id: string }) => {
+    if (kind === 'plant') setSelectedTab('farm');
+    else {
+      setSelectedTab('inventory');
+      setInventoryTab({ batch: 'curing', bud: 'buds', seed: 'seeds' }[kind]);
     }
+    setHighlightId(id);
+  };
 
-    const hybridTraits = calculateTraits(hybridGenetics);
-    const hybridName = generateHybridName(selectedSeed1.name, selectedSeed2.name);
-    
-    const newSeed: SeedItem = {
-      id: Date.now().toString(),
-      name: hybridName,
-      quantity: 1,
-      genetics: hybridGenetics,
-      traits: hybridTraits,
-      isKnownGenetics: false, // Player doesn't know the genetics!
-      createdAt: gameTime
-    };
-
-    // Consume parent seeds
-    setSeeds(prev => prev.map(seed => {
-      if (seed.id === selectedSeed1.id || seed.id === selectedSeed2.id) {
-        return { ...seed, quantity: seed.quantity - 1 };
-      }
-      return seed;
-    }).filter(seed => seed.quantity > 0));
-
-    // Add new hybrid seed
-    setSeeds(prev => [...prev, newSeed]);
-    
-    setGameStats(prev => ({
-      ...prev,
-      crossbreedingAttempts: prev.crossbreedingAttempts + 1,
-      experimentsCount: prev.experimentsCount + 1
-    }));
+  const highlight = (id: string) => id === highlightId ? 'ring-4 ring-yellow-400' : '';
 
+  const crossbreedSeeds = () => {
+    if (!selectedSeed1 || !selectedSeed2) return;
+    dispatch({ type: 'crossbreedSeeds', seed1Id: selectedSeed1.id, seed2Id: selectedSeed2.id });
     setSelectedSeed1(null);
     setSelectedSeed2(null);
   };
 
-  const buySeed = (strain: StoreStrain) => {
-    if (gameStats.money < strain.price) return;
-
-    const newSeed: SeedItem = {
-      id: Date.now().toString(),
-      name: strain.name,
-      quantity: 1,
-      genetics: strain.genetics,
-      traits: strain.traits,
-      isKnownGenetics: true, // Store seeds have known genetics
-      createdAt: gameTime
-    };
-
-    setSeeds(prev => {
-      const existing = prev.find(s => s.name === strain.name && s.isKnownGenetics);
-      if (existing) {
-        return prev.map(s => 
-          s.id === existing.id ? { ...s, quantity: s.quantity + 1 } : s
-        );
-      }
-      return [...prev, newSeed];
-    });
-
-    setGameStats(prev => ({ ...prev, money: prev.money - strain.price }));
-  };
-
-  const plantSeed = (seedId: string) => {
-    const seed = seeds.find(s => s.id === seedId);
-    if (!seed || seed.quantity < 1) return;
-
-    const newPlant: Plant = {
-      id: Date.now().toString(),
-      name: seed.name,
-      stage: 'seed',
-      progress: 0,
-      genetics: seed.genetics,
-      traits: seed.traits,
-      plantedAt: gameTime
-    };
-
-    setPlants(prev => [...prev, newPlant]);
-    setSeeds(prev => prev.map(s => 
-      s.id === seedId ? { ...s, quantity: s.quantity - 1 } : s
-    ).filter(s => s.quantity > 0));
+  const buySeed = (strainName: string) => dispatch({ type: 'buySeed', strainName });
+  const plantSeed = (seedId: string, roomId: string) => dispatch({ type: 'plantSeed', seedId, roomId });
+  const buyRoom = () => dispatch({ type: 'buyRoom' });
+  const buyPot = (roomId: string) => dispatch({ type: 'buyPot', roomId });
+  const setEnvironment = (roomId: string, factor: EnvironmentFactor, value: number) =>
+    dispatch({ type: 'setEnvironment', roomId, factor, value });
+  const buySupply = (supply: SupplyId) => dispatch({ type: 'buySupply', supply });
+  const applySupply = (plantId: string, supply: SupplyId) => dispatch({ type: 'applySupply', plantId, supply });
+  const treatPlant = (plantId: string) => dispatch({ type: 'treatPlant', plantId });
+  const harvestPlant = (plantId: string) => dispatch({ type: 'harvestPlant', plantId });
+  const jarBatch = (batchId: string) => dispatch({ type: 'jarBatch', batchId });
+  const packBatch = (batchId: string) => dispatch({ type: 'packBatch', batchId });
+  const sellBuds = (itemId: string) => dispatch({ type: 'sellBuds', itemId });
+  const convertBudsToSeeds = (itemId: string) => dispatch({ type: 'convertBudsToSeeds', itemId });
+  const researchBuds = (itemId: string, labType: 'cheap' | 'premium') => dispatch({ type: 'researchBuds', itemId, labType });
+  const cancelLabJob = (jobId: string) => dispatch({ type: 'cancelLabJob', jobId });
+  const sleepHours = (hours: number) => dispatch({ type: 'sleep', hours });
+  const setOfflineCap = (hours: number) => dispatch({ type: 'setOfflineCap', hours });
+
+  // Restart the farm from a shared seed so two players get the same rolls
+  const startNewGame = (seed?: string) => {
+    if (!window.confirm('Начать новую игру? Текущая ферма будет потеряна.')) return;
+    dispatch({ type: 'load', state: createInitialState(Date.now(), seed?.trim() || undefined) });
+    setSelectedSeed1(null);
+    setSelectedSeed2(null);
+    setShareSeedInput('');
   };
 
-  const harvestPlant = (plantId: string) => {
-    const plant = plants.find(p => p.id === plantId);
-    if (!plant || plant.stage !== 'harvest') return;
-    
-    // Add to buds inventory (traits hidden unless researched!)
-    const budItem: BudItem = {
-      id: Date.now().toString(),
-      name: plant.name,
-      quantity: plant.traits.yield,
-      genetics: plant.genetics,
-      traits: plant.traits,
-      isResearched: false,
-      harvestedAt: gameTime
-    };
-
-    setBuds(prev => {
-      const existing = prev.find(item => item.name === plant.name && !item.isResearched);
-      if (existing) {
-        return prev.map(item => 
-          item.id === existing.id 
-            ? { ...item, quantity: item.quantity + plant.traits.yield }
-            : item
-        );
+  // Abandon an unreadable save, keeping a copy in its own slot in case it can be repaired by hand.
+  // If the slot never opened, the new game gets a slot of its own.
+  const resetBrokenSave = async () => {
+    if (!(saveStatus instanceof SaveError)) return;
+    if (!window.confirm('Начать новую игру? Повреждённое сохранение останется копией в менеджере сохранений.')) return;
+    const fresh = createInitialState();
+    try {
+      if (slotId) {
+        await slotStore.duplicateSlot(slotId);
+      } else {
+        const slot = await slotStore.createSlot('Новая ферма', fresh);
+        await slotStore.setActiveSlot(slot.id);
+        setSlotId(slot.id);
       }
-      return [...prev, budItem];
-    });
-    
-    setGameStats(prev => ({
-      ...prev,
-      totalHarvested: prev.totalHarvested + 1,
-      bestYield: Math.max(prev.bestYield, plant.traits.yield),
-      bestPotency: Math.max(prev.bestPotency, plant.traits.potency)
-    }));
-    
-    setPlants(prev => prev.filter(p => p.id !== plantId));
-  };
-
-  const sellBuds = (itemId: string) => {
-    const item = buds.find(i => i.id === itemId);
-    if (!item) return;
-
-    const basePrice = item.isResearched 
-      ? item.traits.yield * item.traits.potency * 10 
-      : 50; // Unknown items sell for less
-    
-    const totalValue = basePrice * item.quantity;
-    
-    setGameStats(prev => ({ ...prev, money: prev.money + totalValue }));
-    setBuds(prev => prev.filter(i => i.id !== itemId));
-  };
-
-  const convertBudsToSeeds = (itemId: string) => {
-    const item = buds.find(i => i.id === itemId);
-    if (!item || gameStats.money < 100) return;
-
-    const newSeed: SeedItem = {
-      id: Date.now().toString(),
-      name: `${item.name} (семена)`,
-      quantity: Math.floor(item.quantity / 2), // Seeds are fewer than harvest
-      genetics: item.genetics,
-      traits: item.traits,
-      isKnownGenetics: item.isResearched,
-      createdAt: gameTime
-    };
-
-    setSeeds(prev => [...prev, newSeed]);
-    setBuds(prev => prev.filter(i => i.id !== itemId));
-    setGameStats(prev => ({ ...prev, money: prev.money - 100 }));
-  };
-
-  const researchBuds = (itemId: string, labType: 'cheap' | 'premium') => {
-    const item = buds.find(i => i.id === itemId);
-    if (!item || item.isResearched) return;
-
-    const cost = labType === 'cheap' ? 100 : 500;
-    if (gameStats.money < cost) return;
-
-    setBuds(prev => prev.map(i => 
-      i.id === itemId ? { ...i, isResearched: true } : i
-    ));
-    setGameStats(prev => ({ 
-      ...prev, 
-      money: prev.money - cost,
-      experimentsCount: prev.experimentsCount + 1
-    }));
-  };
-
-  const sleepHours = (hours: number) => {
-    setGameTime(prev => prev + hours * 60 * 60 * 1000);
+    } catch (error) {
+      // Without the copy the broken save would be overwritten, so the game doesn't start
+      console.error('Could not keep the broken save:', error);
+      toast.error('Хранилище сохранений недоступно, попробуйте позже');
+      return;
+    }
+    dispatch({ type: 'load', state: fresh });
+    setSaveStatus('ready');
   };
 
   const getStageIcon = (stage: string) => {
@@ -447,14 +247,9 @@ const WeedGroove = () => {
     }
   };
 
-  const renderTraitBar = (value: number, max = 10) => (
-    <div className="w-full bg-gray-200 rounded-full h-2">
-      <div 
-        className="bg-plant-500 h-2 rounded-full" 
-        style={{ width: `${(value / max) * 100}%` }}
-      />
-    </div>
-  );
+  if (saveStatus instanceof SaveError) {
+    return <SaveRecovery error={saveStatus} onReset={resetBrokenSave} />;
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-plant-50 to-plant-100 p-4">
@@ -472,22 +267,42 @@ const WeedGroove = () => {
             <Badge variant="secondary" className="bg-plant-100 text-plant-800">
               🧬 Скрещено: {gameStats.crossbreedingAttempts}
             </Badge>
+            <Button asChild variant="outline" size="sm" className="h-6">
+              <Link to="/saves">💾 Сохранения</Link>
+            </Button>
+            <HistoryPanel
+              history={history}
+              onUndo={(steps) => dispatch({ type: 'undo', steps })}
+              onRedo={() => dispatch({ type: 'redo' })}
+            />
           </div>
+          <ClockControls
+            calendar={getCalendar(state)}
+            speed={speed}
+            paused={paused}
+            onSpeedChange={setSpeed}
+            onTogglePause={() => setPaused(!paused)}
+            onStep={() => dispatch({ type: 'tick' })}
+          />
         </header>
 
         <Tabs value={selectedTab} onValueChange={setSelectedTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-6 mb-6">
+          <TabsList className="grid w-full grid-cols-7 mb-6">
             <TabsTrigger value="farm">🌱 Ферма</TabsTrigger>
             <TabsTrigger value="inventory">📦 Инвентарь</TabsTrigger>
             <TabsTrigger value="genetics">🧬 Генетика</TabsTrigger>
             <TabsTrigger value="lab">🔬 Лаборатория</TabsTrigger>
             <TabsTrigger value="market">🏪 Магазин</TabsTrigger>
+            <TabsTrigger value="journal">📖 Журнал</TabsTrigger>
             <TabsTrigger value="stats">📊 Статистика</TabsTrigger>
           </TabsList>
 
           <TabsContent value="farm" className="space-y-6">
             <div className="flex justify-between items-center">
-              <h2 className="text-2xl font-bold text-plant-800">Твоя ферма</h2>
+              <h2 className="text-2xl font-bold text-plant-800 flex items-center gap-3">
+                Твоя ферма
+                {needCare > 0 && <Badge variant="destructive">⚠️ Нужен уход: {needCare}</Badge>}
+              </h2>
               <div className="flex gap-2">
                 <Button onClick={() => sleepHours(6)} variant="outline">
                   😴 Поспать 6ч
@@ -497,78 +312,121 @@ const WeedGroove = () => {
                 </Button>
               </div>
             </div>
+
+            <SupplyShelf supplies={state.supplies} money={gameStats.money} onBuy={buySupply} />
             
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {plants.map(plant => (
-                <Card key={plant.id} className={`transition-all duration-300 hover:scale-105 ${getStageColor(plant.stage)}`}>
-                  <CardHeader className="pb-3">
-                    <CardTitle className="flex items-center justify-between">
-                      <span className="flex items-center gap-2">
-                        <Icon name={getStageIcon(plant.stage)} size={20} />
-                        {plant.name}
-                      </span>
-                      <Badge variant="secondary">
-                        {plant.stage === 'seed' && '🌰 Семя'}
-                        {plant.stage === 'sprout' && '🌱 Росток'}
-                        {plant.stage === 'vegetative' && '🌿 Вегетация'}
-                        {plant.stage === 'flowering' && '🌸 Цветение'}
-                        {plant.stage === 'harvest' && '⭐ Урожай'}
-                      </Badge>
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <Progress value={plant.progress} className="mb-4" />
-                    <div className="grid grid-cols-3 gap-2 mb-4 text-sm">
-                      <div className="text-center">
-                        <div className="font-semibold">🌾 {plant.traits.yield}</div>
-                        <div className="text-xs opacity-70">Урожай</div>
-                      </div>
-                      <div className="text-center">
-                        <div className="font-semibold">⏱️ {plant.traits.speed}</div>
-                        <div className="text-xs opacity-70">Скорость</div>
-                      </div>
-                      <div className="text-center">
-                        <div className="font-semibold">💨 {plant.traits.potency}</div>
-                        <div className="text-xs opacity-70">Крепость</div>
-                      </div>
-                    </div>
-                    {plant.stage === 'harvest' && (
-                      <Button 
-                        onClick={() => harvestPlant(plant.id)}
-                        className="w-full bg-plant-600 hover:bg-plant-700"
-                      >
-                        ✂️ Собрать урожай ({plant.traits.yield}г)
+            {rooms.map(room => {
+              const roomPlants = getRoomPlants(state, room.id);
+              const potPrice = getPotPrice(room);
+              return (
+                <div key={room.id} className="space-y-3">
+                  <div className="flex justify-between items-center flex-wrap gap-2">
+                    <h3 className="text-xl font-semibold text-plant-700">
+                      🏠 {room.name} <span className="text-sm text-gray-500">· горшков занято {roomPlants.length}/{room.pots}</span>
+                    </h3>
+                    {potPrice !== null ? (
+                      <Button size="sm" variant="outline" onClick={() => buyPot(room.id)} disabled={gameStats.money < potPrice}>
+                        🪴 Горшок (${potPrice})
                       </Button>
+                    ) : (
+                      <Badge variant="secondary">Максимум горшков</Badge>
                     )}
-                  </CardContent>
-                </Card>
-              ))}
-              
-              <Card className="border-2 border-dashed border-plant-300 hover:border-plant-500 transition-colors">
-                <CardContent className="flex flex-col items-center justify-center h-full min-h-[200px]">
-                  <Icon name="Plus" size={48} className="text-plant-400 mb-4" />
-                  {seeds.length > 0 ? (
-                    <Select onValueChange={(value) => plantSeed(value)} value="">
-                      <SelectTrigger className="w-full">
-                        <SelectValue placeholder="Посадить семена" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {seeds.map(seed => (
-                          <SelectItem key={seed.id} value={seed.id}>
-                            {seed.name} ({seed.quantity} шт)
-                            {seed.isKnownGenetics ? ' ✅' : ' ❓'}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  ) : (
-                    <p className="text-center text-gray-500">
-                      Купи семена в магазине для посадки
-                    </p>
-                  )}
-                </CardContent>
-              </Card>
-            </div>
+                  </div>
+                  <RoomEnvironmentPanel
+                    room={room}
+                    plants={roomPlants}
+                    pedigree={state.pedigree}
+                    onChange={(factor, value) => setEnvironment(room.id, factor, value)}
+                  />
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {roomPlants.map(plant => (
+                    <Card key={plant.id} id={`item-${plant.id}`} className={`transition-all duration-300 hover:scale-105 ${getStageColor(plant.stage)} ${highlight(plant.id)}`}>
+                      <CardHeader className="pb-3">
+                        <CardTitle className="flex items-center justify-between">
+                          <span className="flex items-center gap-2">
+                            <Icon name={getStageIcon(plant.stage)} size={20} />
+                            {plant.name}
+                          </span>
+                          <Badge variant="secondary">
+                            {plant.stage === 'seed' && '🌰 Семя'}
+                            {plant.stage === 'sprout' && '🌱 Росток'}
+                            {plant.stage === 'vegetative' && '🌿 Вегетация'}
+                            {plant.stage === 'flowering' && '🌸 Цветение'}
+                            {plant.stage === 'harvest' && '⭐ Урожай'}
+                          </Badge>
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <Progress value={plant.progress} className="mb-2" />
+                        {plant.stress > 0.05 && (
+                          <div className="mb-3 text-xs text-orange-600">
+                            😣 Стресс {Math.round(plant.stress * 100)}% — рост медленнее, урожай меньше
+                          </div>
+                        )}
+                        <PlantCare
+                          plant={plant}
+                          supplies={state.supplies}
+                          money={gameStats.money}
+                          onApply={supply => applySupply(plant.id, supply)}
+                          onTreat={() => treatPlant(plant.id)}
+                        />
+                        <TraitGrid traits={plant.traits} />
+                        {plant.stage === 'harvest' && (
+                          <Button 
+                            onClick={() => harvestPlant(plant.id)}
+                            disabled={freeRacks < 1}
+                            className="w-full bg-plant-600 hover:bg-plant-700"
+                          >
+                            {freeRacks > 0 ? `✂️ Собрать урожай (${getHarvestYield(plant)}г)` : '💨 Сушильные сетки заняты'}
+                          </Button>
+                        )}
+                      </CardContent>
+                    </Card>
+                    ))}
+
+                    {roomPlants.length < room.pots && (
+                      <Card className="border-2 border-dashed border-plant-300 hover:border-plant-500 transition-colors">
+                        <CardContent className="flex flex-col items-center justify-center h-full min-h-[200px]">
+                          <Icon name="Plus" size={48} className="text-plant-400 mb-4" />
+                          {seeds.length > 0 ? (
+                            <Select onValueChange={(value) => plantSeed(value, room.id)} value="">
+                              <SelectTrigger className="w-full">
+                                <SelectValue placeholder="Посадить семена" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {seeds.map(seed => (
+                                  <SelectItem key={seed.id} value={seed.id}>
+                                    {seed.name} ({seed.quantity} шт)
+                                    {' '}{KNOWLEDGE_ICONS[seed.knowledge]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <p className="text-center text-gray-500">
+                              Купи семена в магазине для посадки
+                            </p>
+                          )}
+                          <p className="text-sm text-gray-500 mt-2">Свободно горшков: {room.pots - roomPlants.length}</p>
+                        </CardContent>
+                      </Card>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            <Card className="border-2 border-dashed border-plant-300">
+              <CardContent className="flex items-center justify-between gap-4 p-6">
+                <div>
+                  <div className="font-semibold text-plant-800">🏗️ Новая комната</div>
+                  <div className="text-sm text-gray-600">{STARTER_POTS} горшка для начала, цена растёт с каждой комнатой</div>
+                </div>
+                <Button onClick={buyRoom} disabled={gameStats.money < getRoomPrice(state)} className="bg-plant-600 hover:bg-plant-700">
+                  Купить (${getRoomPrice(state)})
+                </Button>
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="inventory" className="space-y-6">
@@ -577,68 +435,63 @@ const WeedGroove = () => {
             </div>
             
             <Tabs value={inventoryTab} onValueChange={setInventoryTab}>
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="curing">🫙 Сушка ({state.batches.length})</TabsTrigger>
                 <TabsTrigger value="buds">🌸 Шишки ({buds.length})</TabsTrigger>
                 <TabsTrigger value="seeds">🌱 Семена ({seeds.length})</TabsTrigger>
               </TabsList>
 
+              <TabsContent value="curing" className="space-y-4">
+                <CuringView state={state} highlightId={highlightId} onJar={jarBatch} onPack={packBatch} />
+              </TabsContent>
+
               <TabsContent value="buds" className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                   {buds.map(item => (
-                    <Card key={item.id} className="relative group">
+                    <Card key={item.id} id={`item-${item.id}`} className={`relative group ${highlight(item.id)}`}>
                       <CardHeader>
                         <CardTitle className="flex items-center justify-between">
                           <span>{item.name}</span>
-                          <Badge variant={item.isResearched ? "default" : "secondary"}>
-                            {item.quantity}г {item.isResearched ? '✅' : '❓'}
-                          </Badge>
+                          <span className="flex gap-1">
+                            <Badge variant="outline" title={`Качество: ${QUALITY_GRADES[item.grade].label}`}>{item.grade}</Badge>
+                            <Badge variant={item.knowledge !== 'none' ? "default" : "secondary"} title={KNOWLEDGE_LABELS[item.knowledge]}>
+                              {item.quantity}г {KNOWLEDGE_ICONS[item.knowledge]}
+                            </Badge>
+                          </span>
                         </CardTitle>
                       </CardHeader>
                       <CardContent>
-                        {item.isResearched ? (
-                          <div className="grid grid-cols-3 gap-2 mb-4 text-sm">
-                            <div className="text-center">
-                              <div className="font-semibold">🌾 {item.traits.yield}</div>
-                              <div className="text-xs opacity-70">Урожай</div>
-                            </div>
-                            <div className="text-center">
-                              <div className="font-semibold">⏱️ {item.traits.speed}</div>
-                              <div className="text-xs opacity-70">Скорость</div>
-                            </div>
-                            <div className="text-center">
-                              <div className="font-semibold">💨 {item.traits.potency}</div>
-                              <div className="text-xs opacity-70">Крепость</div>
-                            </div>
-                          </div>
-                        ) : (
-                          <div className="text-center mb-4 text-gray-500">
-                            ❓ Характеристики неизвестны
-                          </div>
-                        )}
+                        <LineageInfo lineage={item.lineage} pedigree={state.pedigree} />
+                        <KnowledgeView item={item} />
                         
                         <div className="space-y-2">
+                          {getBudJob(state, item.id) && (
+                            <div className="text-center text-sm text-plant-700">🔬 В лаборатории</div>
+                          )}
                           <Button 
                             onClick={() => sellBuds(item.id)}
+                            disabled={!!getBudJob(state, item.id)}
                             variant="outline" 
                             className="w-full"
                           >
-                            💰 Продать (${item.isResearched ? item.traits.yield * item.traits.potency * 10 * item.quantity : 50 * item.quantity})
+                            💰 Продать (${getBudPrice(item) * item.quantity})
                           </Button>
                           <Button 
                             onClick={() => convertBudsToSeeds(item.id)}
-                            disabled={gameStats.money < 100}
+                            disabled={gameStats.money < SEED_CONVERSION_COST || !!getBudJob(state, item.id)}
                             variant="outline" 
                             className="w-full"
                           >
-                            🌱 В семена ($100)
+                            🌱 В семена (${SEED_CONVERSION_COST})
                           </Button>
+                          <PedigreeDialog strainId={item.lineage.strainId} pedigree={state.pedigree} />
                         </div>
                       </CardContent>
                     </Card>
                   ))}
                   {buds.length === 0 && (
                     <div className="col-span-full text-center text-gray-500 py-8">
-                      Нет шишек в инвентаре. Собери урожай!
+                      Нет шишек в инвентаре. Собери урожай, высуши и упакуй!
                     </div>
                   )}
                 </div>
@@ -647,48 +500,27 @@ const WeedGroove = () => {
               <TabsContent value="seeds" className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                   {seeds.map(seed => (
-                    <Card key={seed.id} className="relative group">
+                    <Card key={seed.id} id={`item-${seed.id}`} className={`relative group ${highlight(seed.id)}`}>
                       <CardHeader>
                         <CardTitle className="flex items-center justify-between">
                           <span>{seed.name}</span>
-                          <Badge variant={seed.isKnownGenetics ? "default" : "secondary"}>
-                            {seed.quantity} шт {seed.isKnownGenetics ? '✅' : '❓'}
+                          <Badge variant={seed.knowledge !== 'none' ? "default" : "secondary"} title={KNOWLEDGE_LABELS[seed.knowledge]}>
+                            {seed.quantity} шт {KNOWLEDGE_ICONS[seed.knowledge]}
                           </Badge>
                         </CardTitle>
                       </CardHeader>
                       <CardContent>
-                        {seed.isKnownGenetics ? (
-                          <div className="space-y-2 mb-4">
-                            <div className="flex justify-between items-center">
-                              <span className="text-sm">🌾 Урожай:</span>
-                              <span className="text-sm font-medium">{seed.traits.yield}/10</span>
-                            </div>
-                            {renderTraitBar(seed.traits.yield)}
-                            
-                            <div className="flex justify-between items-center">
-                              <span className="text-sm">⏱️ Скорость:</span>
-                              <span className="text-sm font-medium">{seed.traits.speed}/10</span>
-                            </div>
-                            {renderTraitBar(seed.traits.speed)}
-                            
-                            <div className="flex justify-between items-center">
-                              <span className="text-sm">💨 Крепость:</span>
-                              <span className="text-sm font-medium">{seed.traits.potency}/10</span>
-                            </div>
-                            {renderTraitBar(seed.traits.potency)}
-                          </div>
-                        ) : (
-                          <div className="text-center mb-4 text-gray-500">
-                            ❓ Генетика неизвестна
-                          </div>
-                        )}
+                        <LineageInfo lineage={seed.lineage} pedigree={state.pedigree} />
+                        <KnowledgeView item={seed} bars />
                         
                         <Button 
-                          onClick={() => plantSeed(seed.id)}
+                          onClick={() => freeRoom && plantSeed(seed.id, freeRoom.id)}
+                          disabled={!freeRoom}
                           className="w-full bg-plant-600 hover:bg-plant-700"
                         >
-                          🌱 Посадить
+                          {freeRoom ? `🌱 Посадить (${freeRoom.name})` : 'Нет свободных горшков'}
                         </Button>
+                        <PedigreeDialog strainId={seed.lineage.strainId} pedigree={state.pedigree} />
                       </CardContent>
                     </Card>
                   ))}
@@ -719,12 +551,8 @@ const WeedGroove = () => {
                         <div>
                           <h3 className="font-semibold mb-2">{selectedSeed1.name}</h3>
                           <p className="text-sm text-gray-600 mb-3">Количество: {selectedSeed1.quantity}</p>
-                          {selectedSeed1.isKnownGenetics && (
-                            <div className="space-y-1 text-sm">
-                              <div>🌾 Урожай: {selectedSeed1.traits.yield}/10</div>
-                              <div>⏱️ Скорость: {selectedSeed1.traits.speed}/10</div>
-                              <div>💨 Крепость: {selectedSeed1.traits.potency}/10</div>
-                            </div>
+                          {selectedSeed1.knowledge === 'genotype' && (
+                            <TraitList traits={selectedSeed1.traits} />
                           )}
                           <Button 
                             variant="outline" 
@@ -750,7 +578,7 @@ const WeedGroove = () => {
                               {seeds.filter(s => s.quantity > 0).map(seed => (
                                 <SelectItem key={seed.id} value={seed.id}>
                                   {seed.name} ({seed.quantity})
-                                  {seed.isKnownGenetics ? ' ✅' : ' ❓'}
+                                  {' '}{KNOWLEDGE_ICONS[seed.knowledge]}
                                 </SelectItem>
                               ))}
                             </SelectContent>
@@ -768,12 +596,8 @@ const WeedGroove = () => {
                         <div>
                           <h3 className="font-semibold mb-2">{selectedSeed2.name}</h3>
                           <p className="text-sm text-gray-600 mb-3">Количество: {selectedSeed2.quantity}</p>
-                          {selectedSeed2.isKnownGenetics && (
-                            <div className="space-y-1 text-sm">
-                              <div>🌾 Урожай: {selectedSeed2.traits.yield}/10</div>
-                              <div>⏱️ Скорость: {selectedSeed2.traits.speed}/10</div>
-                              <div>💨 Крепость: {selectedSeed2.traits.potency}/10</div>
-                            </div>
+                          {selectedSeed2.knowledge === 'genotype' && (
+                            <TraitList traits={selectedSeed2.traits} />
                           )}
                           <Button 
                             variant="outline" 
@@ -799,7 +623,7 @@ const WeedGroove = () => {
                               {seeds.filter(s => s.quantity > 0 && s.id !== selectedSeed1?.id).map(seed => (
                                 <SelectItem key={seed.id} value={seed.id}>
                                   {seed.name} ({seed.quantity})
-                                  {seed.isKnownGenetics ? ' ✅' : ' ❓'}
+                                  {' '}{KNOWLEDGE_ICONS[seed.knowledge]}
                                 </SelectItem>
                               ))}
                             </SelectContent>
@@ -815,43 +639,28 @@ const WeedGroove = () => {
                   <div className="bg-plant-50 p-4 rounded-lg mb-4">
                     <h4 className="font-semibold mb-3">Предварительный результат:</h4>
                     <div className="grid grid-cols-3 gap-4 mb-4">
-                      <div>
-                        <div className="text-sm font-medium mb-1">🌾 Урожай</div>
-                        {selectedSeed1.isKnownGenetics && selectedSeed2.isKnownGenetics ? (
-                          <div className="text-sm">
-                            {Math.min(getTraitRange(selectedSeed1.genetics.yield)[0], getTraitRange(selectedSeed2.genetics.yield)[0])} - 
-                            {Math.max(getTraitRange(selectedSeed1.genetics.yield)[1], getTraitRange(selectedSeed2.genetics.yield)[1])}
-                          </div>
-                        ) : (
-                          <div className="text-sm text-gray-500">❓ Неизвестно</div>
-                        )}
-                      </div>
-                      <div>
-                        <div className="text-sm font-medium mb-1">⏱️ Скорость</div>
-                        {selectedSeed1.isKnownGenetics && selectedSeed2.isKnownGenetics ? (
-                          <div className="text-sm">
-                            {Math.min(getTraitRange(selectedSeed1.genetics.speed)[0], getTraitRange(selectedSeed2.genetics.speed)[0])} - 
-                            {Math.max(getTraitRange(selectedSeed1.genetics.speed)[1], getTraitRange(selectedSeed2.genetics.speed)[1])}
-                          </div>
-                        ) : (
-                          <div className="text-sm text-gray-500">❓ Неизвестно</div>
-                        )}
-                      </div>
-                      <div>
-                        <div className="text-sm font-medium mb-1">💨 Крепость</div>
-                        {selectedSeed1.isKnownGenetics && selectedSeed2.isKnownGenetics ? (
-                          <div className="text-sm">
-                            {Math.min(getTraitRange(selectedSeed1.genetics.potency)[0], getTraitRange(selectedSeed2.genetics.potency)[0])} - 
-                            {Math.max(getTraitRange(selectedSeed1.genetics.potency)[1], getTraitRange(selectedSeed2.genetics.potency)[1])}
-                          </div>
-                        ) : (
-                          <div className="text-sm text-gray-500">❓ Неизвестно</div>
-                        )}
-                      </div>
+                      {TRAITS.map(trait => (
+                        <div key={trait.id}>
+                          <div className="text-sm font-medium mb-1">{trait.icon} {trait.label}</div>
+                          <div className="text-xs text-gray-500 mb-1">{DOMINANCE_LABELS[trait.dominance]}</div>
+                          {selectedSeed1.knowledge === 'genotype' && selectedSeed2.knowledge === 'genotype' ? (
+                            <div className="text-sm">
+                              {getOffspringRange(trait, selectedSeed1.genetics, selectedSeed2.genetics).join(' - ')}
+                            </div>
+                          ) : (
+                            <div className="text-sm text-gray-500">❓ Неизвестно</div>
+                          )}
+                        </div>
+                      ))}
                     </div>
                     <div className="text-sm text-orange-600">
-                      ⚠️ Шанс мутации: 10% для каждого гена
+                      ⚠️ Шанс мутации: {MUTATION_RATE * 100}% для каждого гена
                     </div>
+                    {selectedSeed1.knowledge === 'genotype' && selectedSeed2.knowledge === 'genotype' && (
+                      <div className="mt-4 pt-4 border-t border-plant-200">
+                        <PunnettPanel parent1={selectedSeed1.genetics} parent2={selectedSeed2.genetics} />
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -877,48 +686,66 @@ const WeedGroove = () => {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
               <Card className="p-4">
                 <h3 className="font-semibold mb-2">🔬 Базовая лаборатория</h3>
-                <p className="text-sm text-gray-600 mb-3">Точное исследование характеристик</p>
-                <Button variant="outline" className="w-full">$100</Button>
+                <p className="text-sm text-gray-600 mb-3">
+                  Оценка характеристик с доверительным интервалом ±{ESTIMATE_MARGIN} · {LAB_DURATIONS.cheap / 3600000}ч
+                </p>
+                <Button variant="outline" className="w-full">${LAB_COSTS.cheap}</Button>
               </Card>
               <Card className="p-4">
                 <h3 className="font-semibold mb-2">⚗️ Премиум лаборатория</h3>
-                <p className="text-sm text-gray-600 mb-3">Быстрые и детальные результаты</p>
-                <Button variant="outline" className="w-full">$500</Button>
+                <p className="text-sm text-gray-600 mb-3">
+                  Точный генотип по каждому локусу, включая скрытые рецессивные аллели · {LAB_DURATIONS.premium / 3600000}ч
+                </p>
+                <Button variant="outline" className="w-full">${LAB_COSTS.premium}</Button>
               </Card>
             </div>
 
+            <Card>
+              <CardHeader>
+                <CardTitle>⏳ Очередь исследований</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <LabQueue jobs={state.labJobs} buds={buds} gameTime={state.gameTime} onCancel={cancelLabJob} />
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle>🧪 Исследование образцов</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {buds.filter(item => !item.isResearched).map(item => (
+                  {buds.filter(item => item.knowledge !== 'genotype').map(item => (
                     <Card key={item.id} className="p-4">
                       <h3 className="font-semibold mb-2">{item.name}</h3>
-                      <p className="text-sm mb-3">{item.quantity}г образца</p>
+                      <p className="text-sm mb-1">{item.quantity}г образца</p>
+                      <p className="text-xs text-gray-500 mb-3">
+                        {getBudJob(state, item.id)
+                          ? '🔬 Исследуется'
+                          : `${KNOWLEDGE_ICONS[item.knowledge]} ${KNOWLEDGE_LABELS[item.knowledge]}`}
+                      </p>
                       <div className="space-y-2">
                         <Button 
                           onClick={() => researchBuds(item.id, 'cheap')}
-                          disabled={gameStats.money < 100}
+                          disabled={gameStats.money < LAB_COSTS.cheap || !canResearch(item.knowledge, 'cheap') || !!getBudJob(state, item.id)}
                           size="sm" 
                           className="w-full"
                         >
-                          🔬 Исследовать ($100)
+                          🔬 Исследовать (${LAB_COSTS.cheap})
                         </Button>
                         <Button 
                           onClick={() => researchBuds(item.id, 'premium')}
-                          disabled={gameStats.money < 500}
+                          disabled={gameStats.money < LAB_COSTS.premium || !canResearch(item.knowledge, 'premium') || !!getBudJob(state, item.id)}
                           size="sm" 
                           variant="outline"
                           className="w-full"
                         >
-                          ⚗️ Премиум ($500)
+                          ⚗️ Премиум (${LAB_COSTS.premium})
                         </Button>
                       </div>
                     </Card>
                   ))}
-                  {buds.filter(item => !item.isResearched).length === 0 && (
+                  {buds.filter(item => item.knowledge !== 'genotype').length === 0 && (
                     <div className="col-span-full text-center text-gray-500 py-8">
                       Нет образцов для исследования
                     </div>
@@ -940,28 +767,10 @@ const WeedGroove = () => {
                       <h3 className="font-semibold mb-2">{strain.name}</h3>
                       <p className="text-sm text-gray-600 mb-3">{strain.description}</p>
                       
-                      <div className="space-y-2 mb-4">
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm">🌾 Урожай:</span>
-                          <span className="text-sm font-medium">{strain.traits.yield}/10</span>
-                        </div>
-                        {renderTraitBar(strain.traits.yield)}
-                        
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm">⏱️ Скорость:</span>
-                          <span className="text-sm font-medium">{strain.traits.speed}/10</span>
-                        </div>
-                        {renderTraitBar(strain.traits.speed)}
-                        
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm">💨 Крепость:</span>
-                          <span className="text-sm font-medium">{strain.traits.potency}/10</span>
-                        </div>
-                        {renderTraitBar(strain.traits.potency)}
-                      </div>
+                      <TraitBars traits={strain.traits} />
                       
                       <Button 
-                        onClick={() => buySeed(strain)}
+                        onClick={() => buySeed(strain.name)}
                         disabled={gameStats.money < strain.price}
                         className="w-full"
                       >
@@ -974,6 +783,11 @@ const WeedGroove = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="journal" className="space-y-6">
+            <h2 className="text-2xl font-bold text-plant-800">Журнал фермы</h2>
+            <JournalView state={state} onJump={jumpToItem} />
+          </TabsContent>
+
           <TabsContent value="stats" className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
               <Card className="p-6 text-center">
@@ -997,9 +811,70 @@ const WeedGroove = () => {
                 <div className="text-sm text-gray-600">Экспериментов</div>
               </Card>
             </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>🎲 Сид фермы</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <div className="text-2xl font-mono font-bold">{state.rng.seed}</div>
+                    <div className="text-sm text-gray-600">
+                      Одинаковый сид и одинаковые действия дают одинаковые гибриды
+                    </div>
+                  </div>
+                  <Button variant="outline" onClick={() => navigator.clipboard?.writeText(state.rng.seed)}>
+                    📋 Поделиться
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    value={shareSeedInput}
+                    onChange={(e) => setShareSeedInput(e.target.value)}
+                    placeholder="Сид друга"
+                  />
+                  <Button onClick={() => startNewGame(shareSeedInput)} disabled={!shareSeedInput.trim()}>
+                    Новая игра с сидом
+                  </Button>
+                  <Button variant="outline" onClick={() => startNewGame()}>
+                    Случайный сид
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>🌙 Пока вас нет</CardTitle>
+              </CardHeader>
+              <CardContent className="flex items-center justify-between gap-4">
+                <div className="text-sm text-gray-600">
+                  Сколько игрового времени досчитать, когда вы вернётесь на ферму
+                </div>
+                <Select value={String(state.settings.offlineCapHours)} onValueChange={(value) => setOfflineCap(Number(value))}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OFFLINE_CAP_OPTIONS.map(hours => (
+                      <SelectItem key={hours} value={String(hours)}>
+                        {hours === 0 ? 'Не досчитывать' : `До ${hours}ч`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
       </div>
+
+      <OfflineSummary
+        report={offlineReport}
+        capHours={state.settings.offlineCapHours}
+        onClose={() => setOfflineReport(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,251 @@
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import ImportCodeDialog from '@/components/game/ImportCodeDialog';
+import ShareCodeDialog from '@/components/game/ShareCodeDialog';
+import { createInitialState } from '@/game/engine';
+import { parseSave, SaveError } from '@/game/save';
+import { decodeShareCode } from '@/game/shareCode';
+import { AUTOSAVE_SNAPSHOTS, slotStore, type SaveSlot, type SlotSnapshot } from '@/game/slots';
+import type { GameState } from '@/game/types';
+import { downloadText } from '@/lib/download';
+
+const formatPlayedAt = (time: number) =>
+  new Date(time).toLocaleString('ru-RU', { dateStyle: 'short', timeStyle: 'short' });
+
+const toFileName = (name: string) => `weedgroove-${name.replace(/[\\/:*?"<>|\s]+/g, '_')}.json`;
+
+// Storage can fail at any time (quota, private mode, a blocked database); the player sees a toast instead
+const attempt = async (message: string, operation: () => Promise<void>) => {
+  try {
+    await operation();
+  } catch (error) {
+    console.error('Save storage failed:', error);
+    toast.error(message);
+  }
+};
+
+// Save slots: switch between farms, branch one off before a risky breeding run, or roll back to an autosave
+const SaveManager = () => {
+  const navigate = useNavigate();
+  const [slots, setSlots] = useState<SaveSlot[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [snapshots, setSnapshots] = useState<{ slotId: string; items: SlotSnapshot[] } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const refresh = () => attempt('Не удалось прочитать список ферм', async () => {
+    setSlots(await slotStore.listSlots());
+    setActiveId(await slotStore.getActiveSlotId());
+  });
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const play = (id: string) => attempt('Не удалось открыть ферму', async () => {
+    await slotStore.setActiveSlot(id);
+    navigate('/');
+  });
+
+  const create = () => attempt('Не удалось создать ферму', async () => {
+    const slot = await slotStore.createSlot(newName.trim() || `Ферма ${slots.length + 1}`, createInitialState());
+    setNewName('');
+    await play(slot.id);
+  });
+
+  const duplicate = (id: string) => attempt('Не удалось скопировать ферму', async () => {
+    await slotStore.duplicateSlot(id);
+    await refresh();
+  });
+
+  const saveName = () => attempt('Не удалось переименовать ферму', async () => {
+    if (!editing) return;
+    setEditing(null);
+    if (editing.name.trim()) await slotStore.renameSlot(editing.id, editing.name.trim());
+    await refresh();
+  });
+
+  const remove = async (slot: SaveSlot) => {
+    if (!window.confirm(`Удалить «${slot.name}»? Ферма и её автосохранения будут потеряны.`)) return;
+    await attempt('Не удалось удалить ферму', async () => {
+      await slotStore.deleteSlot(slot.id);
+      await refresh();
+    });
+  };
+
+  const toggleSnapshots = (id: string) => attempt('Не удалось прочитать автосохранения', async () => {
+    setSnapshots(snapshots?.slotId === id ? null : { slotId: id, items: await slotStore.listSnapshots(id) });
+  });
+
+  const restore = async (slot: SaveSlot, savedAt: number) => {
+    if (!window.confirm(`Откатить «${slot.name}» к автосохранению от ${formatPlayedAt(savedAt)}?`)) return;
+    await attempt('Не удалось откатить ферму', async () => {
+      await slotStore.restoreSnapshot(slot.id, savedAt);
+      await play(slot.id);
+    });
+  };
+
+  const exportFile = (slot: SaveSlot) => attempt('Не удалось выгрузить ферму', async () => {
+    const data = await slotStore.readSlot(slot.id);
+    if (data) downloadText(data, toFileName(slot.name));
+  });
+
+  // Imports go through the same validation and migrations as loading a slot, then land in a new slot
+  const importState = async (state: GameState, name: string) => {
+    await slotStore.createSlot(name, state);
+    await refresh();
+    toast(`Ферма «${name}» импортирована`);
+  };
+
+  // Whatever fails (a bad save, an unreadable file, storage), the player gets a message, not a silent rejection
+  const describeImportError = (error: unknown, source: string) => {
+    if (error instanceof SaveError) {
+      console.error(`Rejected ${source}:`, error, error.details);
+      return error.message;
+    }
+    console.error(`Could not import ${source}:`, error);
+    return 'Не удалось импортировать ферму';
+  };
+
+  const importFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await importState(parseSave(await file.text()), file.name.replace(/\.json$/i, ''));
+    } catch (error) {
+      toast.error(`${file.name}: ${describeImportError(error, 'imported file')}`);
+    }
+  };
+
+  // Resolves to the reason the code was rejected, or null once imported
+  const importCode = async (code: string) => {
+    try {
+      await importState(await decodeShareCode(code), 'Ферма по коду');
+      return null;
+    } catch (error) {
+      return describeImportError(error, 'share code');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-plant-50 to-plant-100 p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <header className="flex justify-between items-center flex-wrap gap-2">
+          <h1 className="text-3xl font-bold text-plant-800">💾 Сохранения</h1>
+          <Button asChild variant="outline">
+            <Link to="/">← К ферме</Link>
+          </Button>
+        </header>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-plant-800">Новая ферма</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex gap-2">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && create()}
+                placeholder={`Ферма ${slots.length + 1}`}
+              />
+              <Button className="bg-plant-600 hover:bg-plant-700" onClick={create}>
+                🌱 Создать
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => fileInput.current?.click()}>
+                📂 Импорт из файла
+              </Button>
+              <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={importFile} />
+              <ImportCodeDialog onImport={importCode} />
+            </div>
+          </CardContent>
+        </Card>
+
+        {[...slots].sort((a, b) => b.lastPlayedAt - a.lastPlayedAt).map(slot => (
+          <Card key={slot.id} className={slot.id === activeId ? 'border-plant-500' : ''}>
+            <CardHeader>
+              <CardTitle className="flex justify-between items-center gap-2 text-plant-800">
+                {editing?.id === slot.id ? (
+                  <Input
+                    autoFocus
+                    value={editing.name}
+                    onChange={(e) => setEditing({ id: slot.id, name: e.target.value })}
+                    onKeyDown={(e) => e.key === 'Enter' && saveName()}
+                    onBlur={saveName}
+                  />
+                ) : (
+                  <span>{slot.name}</span>
+                )}
+                {slot.id === activeId && <Badge className="bg-plant-600">Текущая</Badge>}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {slot.summary ? (
+                  <>
+                    <Badge variant="secondary">💰 ${slot.summary.money}</Badge>
+                    <Badge variant="secondary">📅 День {slot.summary.day}</Badge>
+                    <Badge variant="secondary">🌱 Собрано: {slot.summary.harvested}</Badge>
+                  </>
+                ) : (
+                  <Badge variant="secondary">Сводка появится после загрузки</Badge>
+                )}
+                <Badge variant="outline">🕒 {formatPlayedAt(slot.lastPlayedAt)}</Badge>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" className="bg-plant-600 hover:bg-plant-700" onClick={() => play(slot.id)}>
+                  ▶️ Играть
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => duplicate(slot.id)}>
+                  📄 Копия
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setEditing({ id: slot.id, name: slot.name })}>
+                  ✏️ Переименовать
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => exportFile(slot)}>
+                  ⬇️ Файл
+                </Button>
+                <ShareCodeDialog name={slot.name} getSave={() => slotStore.readSlot(slot.id)} />
+                <Button size="sm" variant="outline" onClick={() => toggleSnapshots(slot.id)}>
+                  🕰️ Автосохранения
+                </Button>
+                <Button size="sm" variant="outline" className="text-red-600" onClick={() => remove(slot)}>
+                  🗑️ Удалить
+                </Button>
+              </div>
+              {snapshots?.slotId === slot.id && (
+                <div className="space-y-2 border-t pt-3">
+                  <div className="text-sm text-gray-600">
+                    Последние {AUTOSAVE_SNAPSHOTS} снимков, не чаще раза в 5 минут
+                  </div>
+                  {snapshots.items.map(snapshot => (
+                    <div key={snapshot.savedAt} className="flex justify-between items-center text-sm">
+                      <span>{formatPlayedAt(snapshot.savedAt)}</span>
+                      <Button size="sm" variant="outline" onClick={() => restore(slot, snapshot.savedAt)}>
+                        ↩️ Откатить
+                      </Button>
+                    </div>
+                  ))}
+                  {snapshots.items.length === 0 && (
+                    <div className="text-sm text-gray-500">Снимков пока нет</div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SaveManager;